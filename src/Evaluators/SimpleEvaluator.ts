@@ -1,6 +1,7 @@
 // src/Evaluators/SimpleEvaluator.ts
 
-import { OpenAIChat } from "../LLMs/OpenAIChat";
+import { ChatModel } from "../LLMs/ChatModel";
+import { callStructured, StructuredOutputError } from "../LLMs/StructuredOutput";
 import { ConversationMessage } from "../memory/Memory";
 
 export interface EvaluationResult {
@@ -9,10 +10,21 @@ export interface EvaluationResult {
   improvements?: string; // Suggested improvements
 }
 
+const EVALUATION_SCHEMA = {
+  type: "object",
+  properties: {
+    score: { type: "number", minimum: 0, maximum: 1 },
+    feedback: { type: "string" },
+    improvements: { type: "string" },
+  },
+  required: ["score", "feedback", "improvements"],
+  additionalProperties: false,
+};
+
 export class SimpleEvaluator {
-  private model: OpenAIChat;
+  private model: ChatModel;
 
-  constructor(model: OpenAIChat) {
+  constructor(model: ChatModel) {
     this.model = model;
   }
 
@@ -49,30 +61,35 @@ export class SimpleEvaluator {
 "${assistantResponse}"
 
 Please provide:
-1. A numeric score (0-1) assessing the quality and relevance of the response.
-2. Detailed feedback about what the response did well or poorly.
-3. Suggestions for improvements, if any. If no improvements are needed, leave the field blank.
-
-Structure your response as follows:
-Score: <numeric value>
-Feedback: <detailed feedback>
-Improvements: <suggested improvements>`,
+1. "score": a number (0-1) assessing the quality and relevance of the response.
+2. "feedback": detailed feedback about what the response did well or poorly.
+3. "improvements": suggestions for improvements, if any. If no improvements are needed, use an empty string.`,
       },
     ];
 
-    const evalResponse = await this.model.call(prompt);
-
-    console.log("[SimpleEvaluator] Raw evaluation response:", evalResponse);
+    let evaluation: EvaluationResult;
+    try {
+      evaluation = await callStructured<EvaluationResult>(this.model, prompt, EVALUATION_SCHEMA, {
+        name: "evaluation",
+      });
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+      console.warn("[SimpleEvaluator] Could not parse evaluation response:", error.errors);
+      return {
+        score: 0,
+        feedback: "No feedback provided.",
+        improvements: "No improvements suggested.",
+      };
+    }
 
-    // Parse evaluation results
-    const scoreMatch = evalResponse.match(/Score:\s*([\d.]+)/i);
-    const feedbackMatch = evalResponse.match(/Feedback:\s*([\s\S]+?)Improvements:/i);
-    const improvementsMatch = evalResponse.match(/Improvements:\s*([\s\S]+)/i);
+    console.log("[SimpleEvaluator] Evaluation result:", evaluation);
 
     return {
-      score: scoreMatch ? parseFloat(scoreMatch[1]) : 0,
-      feedback: feedbackMatch ? feedbackMatch[1].trim() : "No feedback provided.",
-      improvements: improvementsMatch ? improvementsMatch[1].trim() : "No improvements suggested.",
+      score: evaluation.score,
+      feedback: evaluation.feedback.trim() || "No feedback provided.",
+      improvements: evaluation.improvements?.trim() || "No improvements suggested.",
     };
   }
 }
@@ -0,0 +1,204 @@
+// src/LLMs/AnthropicChat.ts
+import axios from "axios";
+import { ChatModel, ChatMessage, ChatCallOptions } from "./ChatModel";
+import { ContentPart, contentPartsToText } from "./ContentParts";
+import { RetryPolicy, withRetry } from "./RetryPolicy";
+import { isCancellation } from "../utils/Cancellation";
+
+/**
+ * Options for the AnthropicChat class:
+ * - apiKey: your Anthropic API key
+ * - model: which Claude model to use (e.g., "claude-3-5-haiku-latest")
+ * - temperature: creativity setting
+ * - maxTokens: upper bound on generated tokens (required by the Messages API)
+ * - baseUrl: API root, override for proxies or a local stub server
+ * - apiVersion: value for the `anthropic-version` header
+ * - retry: retry/backoff policy for transient failures (429, 5xx, network errors)
+ */
+export interface AnthropicChatOptions {
+  apiKey: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  baseUrl?: string;
+  apiVersion?: string;
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * ChatModel adapter for Anthropic's Messages API.
+ */
+export class AnthropicChat implements ChatModel {
+  private apiKey: string;
+  private model: string;
+  private temperature: number;
+  private maxTokens: number;
+  private baseUrl: string;
+  private apiVersion: string;
+  private retryPolicy: Partial<RetryPolicy>;
+
+  constructor(options: AnthropicChatOptions) {
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? "claude-3-5-haiku-latest";
+    this.temperature = options.temperature ?? 0.7;
+    this.maxTokens = options.maxTokens ?? 1024;
+    this.baseUrl = (options.baseUrl ?? "https://api.anthropic.com/v1").replace(/\/+$/, "");
+    this.apiVersion = options.apiVersion ?? "2023-06-01";
+    this.retryPolicy = options.retry ?? {};
+
+    if (!this.apiKey) {
+      throw new Error("Missing ANTHROPIC_API_KEY to the AnthropicChat constructor. Either pass it in or set it in the environment.");
+    }
+  }
+
+  /**
+   * Identifies this model and its sampling parameters.
+   */
+  public describe(): Record<string, any> {
+    return {
+      provider: "anthropic",
+      model: this.model,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+    };
+  }
+
+  /**
+   * Calls the Anthropic Messages endpoint with the specified messages.
+   * System messages are hoisted into the top-level `system` field, and any
+   * non user/assistant roles (e.g. "reflection") are sent as user turns.
+   * `options.sampling` overrides temperature and maxTokens and can add topP and stop sequences.
+   * Token usage is reported through `options.onUsage`.
+   * Transient failures are retried per the retry policy; failures surface as LLMError subclasses.
+   */
+  public async call(messages: ChatMessage[], options?: ChatCallOptions): Promise<string> {
+    const { system, turns } = AnthropicChat.toAnthropicMessages(messages);
+    const sampling = options?.sampling ?? {};
+
+    try {
+      const response = await withRetry(
+        () =>
+          axios.post(
+            `${this.baseUrl}/messages`,
+            {
+              model: this.model,
+              temperature: sampling.temperature ?? this.temperature,
+              max_tokens: sampling.maxTokens ?? this.maxTokens,
+              ...(sampling.topP !== undefined ? { top_p: sampling.topP } : {}),
+              ...(sampling.stop ? { stop_sequences: sampling.stop } : {}),
+              ...(system ? { system } : {}),
+              messages: turns
+            },
+            {
+              headers: {
+                "Content-Type": "application/json",
+                "x-api-key": this.apiKey,
+                "anthropic-version": this.apiVersion,
+                ...options?.headers
+              },
+              signal: options?.signal
+            }
+          ),
+        this.retryPolicy,
+        options?.signal
+      );
+
+      const usage = response.data?.usage;
+      if (usage && options?.onUsage) {
+        const promptTokens = usage.input_tokens ?? 0;
+        const completionTokens = usage.output_tokens ?? 0;
+        options.onUsage({
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+          model: response.data?.model ?? this.model,
+        });
+      }
+
+      const blocks: Array<{ type: string; text?: string }> = response.data?.content ?? [];
+      return blocks
+        .filter((b) => b.type === "text" && typeof b.text === "string")
+        .map((b) => b.text)
+        .join("")
+        .trim();
+    } catch (error: any) {
+      if (!isCancellation(error)) {
+        console.error("Error calling Anthropic API:", error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The Messages API requires alternating user/assistant turns starting with a user turn,
+   * so consecutive messages with the same role are merged.
+   * User messages with content parts become content block arrays.
+   */
+  private static toAnthropicMessages(messages: ChatMessage[]): {
+    system: string;
+    turns: { role: "user" | "assistant"; content: string | any[] }[];
+  } {
+    const systemParts: string[] = [];
+    const turns: { role: "user" | "assistant"; content: string | any[] }[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === "system") {
+        systemParts.push(msg.content);
+        continue;
+      }
+      const role = msg.role === "assistant" ? "assistant" : "user";
+      const content =
+        role === "user" && msg.parts && msg.parts.length > 0
+          ? msg.parts.map((p) => AnthropicChat.toAnthropicBlock(p))
+          : msg.content;
+
+      const last = turns[turns.length - 1];
+      if (last && last.role === role) {
+        last.content =
+          typeof last.content === "string" && typeof content === "string"
+            ? `${last.content}\n\n${content}`
+            : [...AnthropicChat.toBlocks(last.content), ...AnthropicChat.toBlocks(content)];
+      } else {
+        turns.push({ role, content });
+      }
+    }
+
+    if (turns.length === 0 || turns[0].role !== "user") {
+      turns.unshift({ role: "user", content: "(continue)" });
+    }
+
+    return { system: systemParts.join("\n\n"), turns };
+  }
+
+  private static toBlocks(content: string | any[]): any[] {
+    return typeof content === "string" ? [{ type: "text", text: content }] : content;
+  }
+
+  /**
+   * Maps a content part to a Messages API content block. Images and PDFs are sent inline;
+   * provider file ids are not supported and degrade to a text placeholder.
+   */
+  private static toAnthropicBlock(part: ContentPart): any {
+    if (part.type === "image") {
+      const dataUrl = part.url?.match(/^data:([^;]+);base64,(.*)$/);
+      if (part.data || dataUrl) {
+        return {
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: dataUrl ? dataUrl[1] : part.mimeType ?? "image/png",
+            data: dataUrl ? dataUrl[2] : part.data
+          }
+        };
+      }
+      return { type: "image", source: { type: "url", url: part.url } };
+    }
+    if (part.type === "file" && part.data) {
+      return {
+        type: "document",
+        source: { type: "base64", media_type: part.mimeType ?? "application/pdf", data: part.data }
+      };
+    }
+    return { type: "text", text: part.type === "text" ? part.text : contentPartsToText([part]) };
+  }
+}
@@ -0,0 +1,171 @@
+// src/LLMs/CachingChatModel.ts
+
+import {
+  ChatModel,
+  ChatMessage,
+  ChatResponse,
+  ChatCallOptions,
+  ChatStreamOptions,
+  StreamDelta,
+  ToolSchema,
+} from "./ChatModel";
+import { TokenUsage } from "./TokenUsage";
+import { LLMCache, CacheMissError } from "./LLMCache";
+import { throwIfAborted } from "../utils/Cancellation";
+
+/**
+ * Wraps any ChatModel with a record/replay cache, so that Agent, AgentTeam and Workflow runs
+ * can be recorded once against the real provider and replayed offline (e.g. in CI).
+ *
+ * Requests are keyed on the wrapped model's identity and sampling parameters (`describe()`),
+ * the messages, any tool schemas, per-call sampling overrides and the requested response format.
+ * Replayed calls still report their recorded usage through `onUsage` (so usage and cost budgets
+ * behave as in the recorded run) and deliver the recorded text through `onToken`.
+ *
+ * `callWithTools` and `stream` are only available if the wrapped model provides them.
+ */
+export class CachingChatModel implements ChatModel {
+  private model: ChatModel;
+  private cache: LLMCache;
+
+  public callWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolSchema[],
+    options?: ChatCallOptions
+  ) => Promise<ChatResponse>;
+
+  public stream?: (messages: ChatMessage[], options?: ChatStreamOptions) => AsyncIterable<StreamDelta>;
+
+  constructor(model: ChatModel, cache: LLMCache) {
+    this.model = model;
+    this.cache = cache;
+
+    if (model.callWithTools) {
+      this.callWithTools = (messages, tools, options) => this.cachedCallWithTools(messages, tools, options);
+    }
+    if (model.stream) {
+      this.stream = (messages, options) => this.cachedStream(messages, options);
+    }
+  }
+
+  public describe(): Record<string, any> {
+    return this.model.describe?.() ?? { model: this.model.constructor.name };
+  }
+
+  public async call(messages: ChatMessage[], options?: ChatCallOptions): Promise<string> {
+    const response = await this.resolveResponse(
+      this.requestFor("chat", messages, undefined, options),
+      (recordingOptions) => this.model.call(messages, recordingOptions).then((content) => ({ content })),
+      options
+    );
+    return response.content;
+  }
+
+  private cachedCallWithTools(
+    messages: ChatMessage[],
+    tools: ToolSchema[],
+    options?: ChatCallOptions
+  ): Promise<ChatResponse> {
+    return this.resolveResponse(
+      this.requestFor("chat", messages, tools, options),
+      (recordingOptions) => this.model.callWithTools!(messages, tools, recordingOptions),
+      options
+    );
+  }
+
+  /**
+   * Streams are recorded as their full delta sequence once they complete;
+   * an abandoned or failed stream is not recorded.
+   */
+  private async *cachedStream(messages: ChatMessage[], options?: ChatStreamOptions): AsyncGenerator<StreamDelta> {
+    const request = this.requestFor("chat-stream", messages, options?.tools, options);
+
+    if (this.cache.mode === "passthrough") {
+      for await (const delta of this.model.stream!(messages, options)) {
+        yield delta;
+      }
+      return;
+    }
+
+    throwIfAborted(options?.signal);
+    const key = LLMCache.keyFor(request);
+    const entry = await this.cache.get<StreamDelta[]>(key);
+    if (entry) {
+      for (const delta of entry.response) {
+        if (delta.type === "text") options?.onToken?.(delta.text);
+        if (delta.type === "usage") options?.onUsage?.(delta.usage);
+        yield delta;
+      }
+      return;
+    }
+
+    if (this.cache.mode === "replay") {
+      throw new CacheMissError(key, request);
+    }
+
+    const recorded: StreamDelta[] = [];
+    for await (const delta of this.model.stream!(messages, options)) {
+      recorded.push(delta);
+      yield delta;
+    }
+    await this.cache.set(key, request, recorded);
+  }
+
+  /**
+   * Resolves a call through the cache. On a miss the real model is called with options
+   * that also capture its usage, so the usage can be persisted with the response.
+   */
+  private async resolveResponse(
+    request: Record<string, any>,
+    compute: (options?: ChatCallOptions) => Promise<ChatResponse>,
+    options?: ChatCallOptions
+  ): Promise<ChatResponse> {
+    throwIfAborted(options?.signal);
+
+    let usage: TokenUsage | undefined;
+    const recordingOptions: ChatCallOptions = {
+      ...options,
+      onUsage: (u) => {
+        usage = u;
+        options?.onUsage?.(u);
+      },
+    };
+
+    const { value, cached } = await this.cache.resolve(request, async () => {
+      const response = await compute(recordingOptions);
+      return { ...response, usage: response.usage ?? usage };
+    });
+
+    if (cached) {
+      if (value.content) options?.onToken?.(value.content);
+      if (value.usage) options?.onUsage?.(value.usage);
+    }
+    return value;
+  }
+
+  /**
+   * Builds the cache request. Only the fields that reach the provider are included,
+   * so e.g. memory timestamps never change the key.
+   */
+  private requestFor(
+    kind: string,
+    messages: ChatMessage[],
+    tools?: ToolSchema[],
+    options?: ChatCallOptions
+  ): Record<string, any> {
+    return {
+      kind,
+      model: this.describe(),
+      messages: messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+        toolCalls: m.toolCalls,
+        toolCallId: m.toolCallId,
+        parts: m.parts,
+      })),
+      tools: tools && tools.length > 0 ? tools : undefined,
+      responseFormat: options?.responseFormat,
+      sampling: options?.sampling,
+    };
+  }
+}
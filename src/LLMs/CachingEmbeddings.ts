@@ -0,0 +1,66 @@
+// src/LLMs/CachingEmbeddings.ts
+
+import { Embeddings, embedMany } from "./Embeddings";
+import { LLMCache, CacheMissError } from "./LLMCache";
+import { throwIfAborted } from "../utils/Cancellation";
+
+/**
+ * Wraps any Embeddings implementation with a record/replay cache (see `CachingChatModel`).
+ * Requests are keyed on the wrapped model's identity (`describe()`) and the text.
+ */
+export class CachingEmbeddings implements Embeddings {
+  private embeddings: Embeddings;
+  private cache: LLMCache;
+
+  constructor(embeddings: Embeddings, cache: LLMCache) {
+    this.embeddings = embeddings;
+    this.cache = cache;
+  }
+
+  public describe(): Record<string, any> {
+    return this.embeddings.describe?.() ?? { model: this.embeddings.constructor.name };
+  }
+
+  public async embed(text: string, options?: { signal?: AbortSignal }): Promise<number[]> {
+    throwIfAborted(options?.signal);
+    const { value } = await this.cache.resolve(
+      { kind: "embedding", model: this.describe(), text },
+      () => this.embeddings.embed(text, options)
+    );
+    return value;
+  }
+
+  /**
+   * Resolves each text through the cache; misses are embedded together in one batch.
+   */
+  public async embedBatch(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]> {
+    throwIfAborted(options?.signal);
+    const requests = texts.map((text) => ({ kind: "embedding", model: this.describe(), text }));
+    const vectors: (number[] | undefined)[] = [];
+    const missing: number[] = [];
+
+    for (let i = 0; i < requests.length; i++) {
+      const entry =
+        this.cache.mode === "passthrough" ? undefined : await this.cache.get<number[]>(LLMCache.keyFor(requests[i]));
+      vectors.push(entry?.response);
+      if (!entry) missing.push(i);
+    }
+
+    if (missing.length > 0) {
+      if (this.cache.mode === "replay") {
+        const request = requests[missing[0]];
+        throw new CacheMissError(LLMCache.keyFor(request), request);
+      }
+      const fresh = await embedMany(this.embeddings, missing.map((i) => texts[i]), options);
+      for (let j = 0; j < missing.length; j++) {
+        const i = missing[j];
+        vectors[i] = fresh[j];
+        if (this.cache.mode === "record") {
+          await this.cache.set(LLMCache.keyFor(requests[i]), requests[i], fresh[j]);
+        }
+      }
+    }
+
+    return vectors as number[][];
+  }
+}
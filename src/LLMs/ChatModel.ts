@@ -0,0 +1,173 @@
+// src/LLMs/ChatModel.ts
+
+import { TokenUsage } from "./TokenUsage";
+import { ContentPart } from "./ContentParts";
+
+/**
+ * A tool invocation requested by the model through native function calling.
+ * `arguments` is the raw JSON string produced by the model.
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * A function/tool definition in JSON Schema form, as sent to providers
+ * that support native function calling.
+ */
+export interface ToolSchema {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * A single chat message as sent to a chat model provider.
+ * - toolCalls: set on assistant messages that requested native tool calls
+ * - toolCallId: set on "tool" messages carrying the result of one of those calls
+ * - parts: multimodal content (text, images, files) of a user message; models that accept
+ *   it send the parts, text-only models send `content`, which should hold the text rendering
+ *   (see contentPartsToText)
+ */
+export interface ChatMessage {
+  role: string;
+  content: string;
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+  parts?: ContentPart[];
+}
+
+/**
+ * The reply of a tool-aware model call: text content plus any requested tool calls.
+ * - choices: the text of every completion when several were requested (`sampling.n`);
+ *   `content` is the first
+ */
+export interface ChatResponse {
+  content: string;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+  choices?: string[];
+}
+
+/**
+ * Sampling parameters, set on a model at construction and overridable per call through
+ * `ChatCallOptions.sampling`. Providers ignore the ones they do not support.
+ * - maxTokens: upper bound on generated tokens
+ * - stop: sequences that end generation
+ * - seed: best-effort deterministic sampling
+ * - logitBias: token ID → bias (-100..100)
+ * - n: number of completions to generate; `call` returns the first
+ */
+export interface SamplingOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  logitBias?: Record<string, number>;
+  n?: number;
+}
+
+/**
+ * A JSON Schema the reply must conform to. Providers with native structured output
+ * (OpenAI's `response_format: json_schema`) enforce it; others ignore it, so use
+ * `callStructured` to also validate and repair the reply.
+ */
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, any>;
+  strict?: boolean;
+}
+
+/**
+ * Which model actually answered a call made through a composite model (FallbackChatModel).
+ * - model: name of the model that served the call
+ * - failed: models tried before it, with their error messages
+ * - latencyMs: duration of the successful attempt
+ */
+export interface ModelServedInfo {
+  model: string;
+  failed: { model: string; error: string }[];
+  latencyMs: number;
+}
+
+/**
+ * Per-call options accepted by every ChatModel method.
+ * - onUsage: invoked with the provider-reported token usage once the call completes
+ * - onToken: invoked with each text fragment as it streams in (models that can stream
+ *   will do so for this call when it is set)
+ * - signal: aborts the underlying HTTP request (rejecting with CancelledError)
+ * - responseFormat: requests JSON output matching a schema, where the provider supports it
+ * - onModelServed: invoked by composite models with the model that served the call
+ * - sampling: sampling parameters for this call, overriding the model's own
+ * - headers: extra HTTP headers for this request (e.g. a tenant ID for a gateway)
+ * - metadata: caller annotations for middleware (see MiddlewareChatModel); not sent to the provider
+ */
+export interface ChatCallOptions {
+  onUsage?: (usage: TokenUsage) => void;
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+  responseFormat?: ResponseFormat;
+  onModelServed?: (info: ModelServedInfo) => void;
+  sampling?: SamplingOptions;
+  headers?: Record<string, string>;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Options for ChatModel.stream: the per-call options plus tool schemas,
+ * whose calls then arrive as "tool_call" fragments.
+ */
+export interface ChatStreamOptions extends ChatCallOptions {
+  tools?: ToolSchema[];
+}
+
+/**
+ * A typed fragment of a streamed model response:
+ * - text: a piece of the assistant's reply
+ * - tool_call: a fragment of a native tool call; `id` and `name` arrive on the first
+ *   fragment for a given `index`, `argumentsDelta` pieces concatenate to the JSON arguments
+ * - usage: token usage for the whole call (usually the last delta)
+ * - finish: why generation stopped ("stop", "length", "tool_calls", ...)
+ */
+export type StreamDelta =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; index: number; id?: string; name?: string; argumentsDelta: string }
+  | { type: "usage"; usage: TokenUsage }
+  | { type: "finish"; reason: string };
+
+/**
+ * The provider-agnostic interface every chat model wrapper implements.
+ * Agents, planners, memories, evaluators and routers only depend on this,
+ * so any provider (OpenAI, Anthropic, a local server, ...) can be plugged in.
+ */
+export interface ChatModel {
+  /**
+   * Sends the conversation to the model and resolves with the assistant's reply text.
+   */
+  call(messages: ChatMessage[], options?: ChatCallOptions): Promise<string>;
+
+  /**
+   * (Optional) Sends the conversation along with tool schemas using the provider's
+   * native function-calling support. Models without it simply omit this method.
+   */
+  callWithTools?(
+    messages: ChatMessage[],
+    tools: ToolSchema[],
+    options?: ChatCallOptions
+  ): Promise<ChatResponse>;
+
+  /**
+   * (Optional) Streams the response as typed deltas. Models that cannot stream omit this.
+   */
+  stream?(messages: ChatMessage[], options?: ChatStreamOptions): AsyncIterable<StreamDelta>;
+
+  /**
+   * (Optional) Identifies the model and its sampling parameters, e.g. for cache keys.
+   */
+  describe?(): Record<string, any>;
+}
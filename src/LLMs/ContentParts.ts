@@ -0,0 +1,40 @@
+// src/LLMs/ContentParts.ts
+
+/**
+ * A piece of a multimodal message.
+ * - text: plain text
+ * - image: an image by `url` (http(s) or data URL) or as base64 `data` with its `mimeType`;
+ *   `detail` is passed to providers that support it
+ * - file: a document by provider `fileId` or as base64 `data`, with an optional `filename`
+ */
+export type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; url?: string; data?: string; mimeType?: string; detail?: "auto" | "low" | "high" }
+  | { type: "file"; fileId?: string; data?: string; mimeType?: string; filename?: string };
+
+/**
+ * Renders content parts as plain text for text-only consumers (text-only models, summaries,
+ * embeddings): text parts verbatim, images and files as short placeholders.
+ */
+export function contentPartsToText(parts: ContentPart[]): string {
+  return parts
+    .map((part) => {
+      switch (part.type) {
+        case "text":
+          return part.text;
+        case "image":
+          return "[image]";
+        case "file":
+          return `[file${part.filename ? `: ${part.filename}` : ""}]`;
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * The URL to send for an image or file part: its `url`, or a data URL built from `data`.
+ */
+export function contentPartUrl(part: { url?: string; data?: string; mimeType?: string }): string {
+  if (part.url) return part.url;
+  return `data:${part.mimeType ?? "application/octet-stream"};base64,${part.data ?? ""}`;
+}
@@ -0,0 +1,137 @@
+// src/LLMs/EmbeddingCache.ts
+
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { Embeddings, embedMany } from "./Embeddings";
+import { stableStringify } from "./LLMCache";
+
+/**
+ * Options for an EmbeddingCache.
+ * - maxEntries: vectors kept in memory, least recently used evicted first (default 10000, -1 = unlimited)
+ * - directory: if set, vectors are also persisted there (one JSON file per text) and
+ *   survive restarts; created on first write
+ */
+export interface EmbeddingCacheOptions {
+  maxEntries?: number;
+  directory?: string;
+}
+
+/**
+ * A content-addressed embedding cache. Vectors are keyed by a hash of the embedding model's
+ * identity (`describe()`) and the exact text, so re-ingesting unchanged documents costs nothing
+ * and switching models never serves stale vectors.
+ *
+ * LongTermMemory uses an in-memory EmbeddingCache by default; share one instance (with a
+ * `directory`) across memories and ingestion scripts to reuse vectors between them.
+ */
+export class EmbeddingCache {
+  private entries = new Map<string, number[]>();
+  private maxEntries: number;
+  private directory?: string;
+
+  constructor(options: EmbeddingCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10000;
+    this.directory = options.directory;
+  }
+
+  /**
+   * Computes the cache key for a text embedded with the given model.
+   */
+  public static keyFor(embeddings: Embeddings, text: string): string {
+    const model = embeddings.describe?.() ?? { model: embeddings.constructor.name };
+    return createHash("sha256").update(stableStringify({ model, text })).digest("hex");
+  }
+
+  /**
+   * Embeds the texts, serving cached vectors where possible and embedding the rest
+   * in one batch (duplicates are only embedded once). Returns vectors in input order.
+   */
+  public async embedAll(
+    embeddings: Embeddings,
+    texts: string[],
+    options?: { signal?: AbortSignal }
+  ): Promise<number[][]> {
+    const keys = texts.map((text) => EmbeddingCache.keyFor(embeddings, text));
+    const vectors: (number[] | undefined)[] = await Promise.all(keys.map((key) => this.get(key)));
+
+    const missing = new Map<string, string>(); // key -> text
+    keys.forEach((key, i) => {
+      if (!vectors[i]) missing.set(key, texts[i]);
+    });
+
+    if (missing.size > 0) {
+      const missingKeys = [...missing.keys()];
+      const fresh = await embedMany(embeddings, [...missing.values()], options);
+      const byKey = new Map<string, number[]>();
+      for (let i = 0; i < missingKeys.length; i++) {
+        byKey.set(missingKeys[i], fresh[i]);
+        await this.set(missingKeys[i], fresh[i]);
+      }
+      keys.forEach((key, i) => {
+        if (!vectors[i]) vectors[i] = byKey.get(key);
+      });
+    }
+
+    return vectors as number[][];
+  }
+
+  /**
+   * Embeds a single text through the cache.
+   */
+  public async embed(embeddings: Embeddings, text: string, options?: { signal?: AbortSignal }): Promise<number[]> {
+    const [vector] = await this.embedAll(embeddings, [text], options);
+    return vector;
+  }
+
+  public async get(key: string): Promise<number[] | undefined> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Refresh recency
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+
+    if (!this.directory) return undefined;
+    try {
+      const vector = JSON.parse(await fs.readFile(this.entryPath(key), "utf8")) as number[];
+      this.remember(key, vector);
+      return vector;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  public async set(key: string, vector: number[]): Promise<void> {
+    this.remember(key, vector);
+    if (this.directory) {
+      await fs.mkdir(this.directory, { recursive: true });
+      const target = this.entryPath(key);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(vector), "utf8");
+      await fs.rename(tmp, target);
+    }
+  }
+
+  /**
+   * Drops the in-memory entries (persisted vectors are kept).
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  private remember(key: string, vector: number[]): void {
+    this.entries.set(key, vector);
+    if (this.maxEntries !== -1) {
+      while (this.entries.size > this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value as string);
+      }
+    }
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory!, `${key}.json`);
+  }
+}
@@ -0,0 +1,42 @@
+// src/LLMs/Embeddings.ts
+
+/**
+ * The provider-agnostic interface for embedding models.
+ * LongTermMemory and other retrieval components only depend on this.
+ */
+export interface Embeddings {
+  /**
+   * Returns a single embedding vector for the given text.
+   */
+  embed(text: string, options?: { signal?: AbortSignal }): Promise<number[]>;
+
+  /**
+   * (Optional) Returns one embedding per text, in input order, using as few requests as the
+   * provider allows. Use `embedMany` to fall back to `embed` for models without it.
+   */
+  embedBatch?(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]>;
+
+  /**
+   * (Optional) Identifies the model and its parameters, e.g. for cache keys.
+   */
+  describe?(): Record<string, any>;
+}
+
+/**
+ * Embeds several texts with `embedBatch` when the model supports it, otherwise one `embed` call each.
+ */
+export async function embedMany(
+  embeddings: Embeddings,
+  texts: string[],
+  options?: { signal?: AbortSignal }
+): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  if (embeddings.embedBatch) {
+    return embeddings.embedBatch(texts, options);
+  }
+  const vectors: number[][] = [];
+  for (const text of texts) {
+    vectors.push(await embeddings.embed(text, options));
+  }
+  return vectors;
+}
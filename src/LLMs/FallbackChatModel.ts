@@ -0,0 +1,304 @@
+// src/LLMs/FallbackChatModel.ts
+
+import {
+  ChatModel,
+  ChatMessage,
+  ChatResponse,
+  ChatCallOptions,
+  ChatStreamOptions,
+  StreamDelta,
+  ToolSchema,
+  ModelServedInfo,
+} from "./ChatModel";
+import { AllModelsFailedError, ModelTimeoutError } from "./LLMError";
+import { HeuristicTokenEstimator } from "./TokenEstimator";
+import { isCancellation, raceWithSignal } from "../utils/Cancellation";
+
+/**
+ * One model in a FallbackChatModel chain.
+ * - name: label used in ModelServedInfo and errors (default: the model's `describe().model`)
+ * - timeoutMs: per-attempt timeout for this model, overriding the chain's default
+ * - maxInputTokens: prompts estimated above this size skip this model; put a small, cheap
+ *   model first with a low limit to route short prompts to it and longer ones down the chain
+ */
+export interface FallbackModelEntry {
+  model: ChatModel;
+  name?: string;
+  timeoutMs?: number;
+  maxInputTokens?: number;
+}
+
+/**
+ * Options for FallbackChatModel.
+ * - models: the chain in priority order, as models or entries
+ * - timeoutMs: default per-attempt timeout (-1 = none, the default); a timed-out attempt
+ *   is aborted and counts as a failure
+ * - shouldFallback: decides whether an error moves on to the next model (default: any error
+ *   except cancellation)
+ * - onFallback: called whenever a model fails and the next one is tried
+ */
+export interface FallbackChatModelOptions {
+  models: (ChatModel | FallbackModelEntry)[];
+  timeoutMs?: number;
+  shouldFallback?: (error: unknown) => boolean;
+  onFallback?: (failedModel: string, error: unknown) => void;
+}
+
+/**
+ * A ChatModel that tries a prioritized list of models (possibly from different providers)
+ * until one succeeds, e.g. `gpt-4o-mini` → `claude-3-5-haiku` → a local Ollama model.
+ *
+ * Every successful call reports the serving model and the failed attempts through
+ * `options.onModelServed` (Agent records these per run), and the latest one is
+ * available from `getLastServed()`.
+ *
+ * `callWithTools` and `stream` are available if any model in the chain provides them;
+ * models without them are skipped for those calls. A stream only falls back before its
+ * first delta has been delivered; likewise, a call with `options.onToken` only falls back
+ * before its first token has been passed on, so the caller never receives a partial answer
+ * followed by a second one. A failure after that is thrown.
+ */
+export class FallbackChatModel implements ChatModel {
+  private entries: FallbackModelEntry[];
+  private timeoutMs: number;
+  private shouldFallback: (error: unknown) => boolean;
+  private onFallback?: (failedModel: string, error: unknown) => void;
+  private lastServed?: ModelServedInfo;
+
+  public callWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolSchema[],
+    options?: ChatCallOptions
+  ) => Promise<ChatResponse>;
+
+  public stream?: (messages: ChatMessage[], options?: ChatStreamOptions) => AsyncIterable<StreamDelta>;
+
+  constructor(options: FallbackChatModelOptions) {
+    if (options.models.length === 0) {
+      throw new Error("FallbackChatModel requires at least one model.");
+    }
+    this.entries = options.models.map((m) =>
+      typeof (m as ChatModel).call === "function" ? { model: m as ChatModel } : (m as FallbackModelEntry)
+    );
+    this.timeoutMs = options.timeoutMs ?? -1;
+    this.shouldFallback = options.shouldFallback ?? ((error) => !isCancellation(error));
+    this.onFallback = options.onFallback;
+
+    if (this.entries.some((e) => e.model.callWithTools)) {
+      this.callWithTools = (messages, tools, callOptions) =>
+        this.runChain(
+          messages,
+          callOptions,
+          (entry) => !!entry.model.callWithTools,
+          (entry, attemptOptions) => entry.model.callWithTools!(messages, tools, attemptOptions)
+        );
+    }
+    if (this.entries.some((e) => e.model.stream)) {
+      this.stream = (messages, streamOptions) => this.streamChain(messages, streamOptions);
+    }
+  }
+
+  public describe(): Record<string, any> {
+    return {
+      fallback: this.entries.map((e) => ({
+        name: this.nameOf(e),
+        ...(e.model.describe?.() ?? {}),
+        maxInputTokens: e.maxInputTokens,
+      })),
+    };
+  }
+
+  /**
+   * The model that served the most recent successful call.
+   */
+  public getLastServed(): ModelServedInfo | undefined {
+    return this.lastServed;
+  }
+
+  public call(messages: ChatMessage[], options?: ChatCallOptions): Promise<string> {
+    return this.runChain(
+      messages,
+      options,
+      () => true,
+      (entry, attemptOptions) => entry.model.call(messages, attemptOptions)
+    );
+  }
+
+  /**
+   * Tries each eligible model in order until one succeeds, or until an attempt that has
+   * already streamed tokens to `options.onToken` fails.
+   */
+  private async runChain<T>(
+    messages: ChatMessage[],
+    options: ChatCallOptions | undefined,
+    supports: (entry: FallbackModelEntry) => boolean,
+    invoke: (entry: FallbackModelEntry, options: ChatCallOptions) => Promise<T>
+  ): Promise<T> {
+    const failed: { model: string; error: unknown }[] = [];
+
+    for (const entry of this.candidates(messages, supports)) {
+      const name = this.nameOf(entry);
+      const started = Date.now();
+      const timeoutMs = entry.timeoutMs ?? this.timeoutMs;
+
+      const controller = new AbortController();
+      const onParentAbort = () => controller.abort();
+      options?.signal?.addEventListener("abort", onParentAbort, { once: true });
+      let timedOut = false;
+      const timer =
+        timeoutMs === -1
+          ? undefined
+          : setTimeout(() => {
+              timedOut = true;
+              controller.abort();
+            }, timeoutMs);
+
+      let streamed = false;
+      const onToken = options?.onToken;
+      const attemptOptions: ChatCallOptions = {
+        ...options,
+        signal: controller.signal,
+        ...(onToken
+          ? {
+              onToken: (token: string) => {
+                streamed = true;
+                onToken(token);
+              },
+            }
+          : {}),
+      };
+
+      try {
+        const result = await raceWithSignal(invoke(entry, attemptOptions), controller.signal);
+        this.served(name, failed, Date.now() - started, options);
+        return result;
+      } catch (err) {
+        const error = timedOut ? new ModelTimeoutError(`${name} timed out after ${timeoutMs}ms`, { timeoutMs }) : err;
+        if (streamed || options?.signal?.aborted || !this.shouldFallback(error)) {
+          throw error;
+        }
+        failed.push({ model: name, error });
+        this.onFallback?.(name, error);
+      } finally {
+        clearTimeout(timer);
+        options?.signal?.removeEventListener("abort", onParentAbort);
+      }
+    }
+
+    throw this.allFailed(messages, failed);
+  }
+
+  /**
+   * Streaming variant of runChain: falls back only until the first delta arrives,
+   * and the timeout applies to that first delta.
+   */
+  private async *streamChain(messages: ChatMessage[], options?: ChatStreamOptions): AsyncGenerator<StreamDelta> {
+    const failed: { model: string; error: unknown }[] = [];
+
+    for (const entry of this.candidates(messages, (e) => !!e.model.stream)) {
+      const name = this.nameOf(entry);
+      const started = Date.now();
+      const timeoutMs = entry.timeoutMs ?? this.timeoutMs;
+
+      const controller = new AbortController();
+      const onParentAbort = () => controller.abort();
+      options?.signal?.addEventListener("abort", onParentAbort, { once: true });
+      let timedOut = false;
+      let timer =
+        timeoutMs === -1
+          ? undefined
+          : setTimeout(() => {
+              timedOut = true;
+              controller.abort();
+            }, timeoutMs);
+
+      let delivered = false;
+      let done = false;
+      const iterator = entry.model.stream!(messages, { ...options, signal: controller.signal })[Symbol.asyncIterator]();
+      try {
+        while (true) {
+          const next = await raceWithSignal(iterator.next(), controller.signal);
+          if (!delivered) {
+            delivered = true;
+            clearTimeout(timer);
+            timer = undefined;
+            this.served(name, failed, Date.now() - started, options);
+          }
+          if (next.done) {
+            done = true;
+            return;
+          }
+          yield next.value;
+        }
+      } catch (err) {
+        const error = timedOut ? new ModelTimeoutError(`${name} timed out after ${timeoutMs}ms`, { timeoutMs }) : err;
+        if (delivered || options?.signal?.aborted || !this.shouldFallback(error)) {
+          throw error;
+        }
+        failed.push({ model: name, error });
+        this.onFallback?.(name, error);
+      } finally {
+        clearTimeout(timer);
+        options?.signal?.removeEventListener("abort", onParentAbort);
+        if (!done) {
+          // Abandoned (consumer stopped early, failure or timeout): release the underlying stream
+          iterator.return?.(undefined).catch(() => undefined);
+        }
+      }
+    }
+
+    throw this.allFailed(messages, failed);
+  }
+
+  /**
+   * Models that support the call and accept a prompt of this size, in priority order.
+   */
+  private candidates(
+    messages: ChatMessage[],
+    supports: (entry: FallbackModelEntry) => boolean
+  ): FallbackModelEntry[] {
+    const tokens = estimatePromptTokens(messages);
+    return this.entries.filter(
+      (e) => supports(e) && (e.maxInputTokens === undefined || tokens <= e.maxInputTokens)
+    );
+  }
+
+  private served(
+    model: string,
+    failed: { model: string; error: unknown }[],
+    latencyMs: number,
+    options?: ChatCallOptions
+  ): void {
+    const info: ModelServedInfo = {
+      model,
+      failed: failed.map((f) => ({ model: f.model, error: (f.error as Error)?.message ?? String(f.error) })),
+      latencyMs,
+    };
+    this.lastServed = info;
+    options?.onModelServed?.(info);
+  }
+
+  private allFailed(messages: ChatMessage[], failed: { model: string; error: unknown }[]): AllModelsFailedError {
+    if (failed.length === 0) {
+      return new AllModelsFailedError(
+        `No model in the fallback chain accepts this request (~${estimatePromptTokens(messages)} prompt tokens).`,
+        { attempts: [] }
+      );
+    }
+    const summary = failed.map((f) => `${f.model}: ${(f.error as Error)?.message ?? String(f.error)}`).join("; ");
+    return new AllModelsFailedError(`All models failed (${summary})`, { attempts: failed });
+  }
+
+  private nameOf(entry: FallbackModelEntry): string {
+    return entry.name ?? entry.model.describe?.().model ?? entry.model.constructor.name;
+  }
+}
+
+const routingEstimator = new HeuristicTokenEstimator();
+
+/**
+ * Rough prompt size used for routing (the models may use different tokenizers).
+ */
+function estimatePromptTokens(messages: ChatMessage[]): number {
+  return routingEstimator.countMessages(messages);
+}
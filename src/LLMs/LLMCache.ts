@@ -0,0 +1,151 @@
+// src/LLMs/LLMCache.ts
+
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+/**
+ * How a cache-wrapped model behaves:
+ * - "record": serve hits from disk, call the real model on a miss and persist the response
+ * - "replay": serve hits from disk, throw `CacheMissError` on a miss (never touches the network)
+ * - "passthrough": always call the real model, neither read nor write the cache
+ */
+export type CacheMode = "record" | "replay" | "passthrough";
+
+/**
+ * Options for an LLMCache.
+ * - directory: where entries are persisted (one JSON file per request), created on first write
+ * - mode: see `CacheMode` (default "record")
+ */
+export interface LLMCacheOptions {
+  directory: string;
+  mode?: CacheMode;
+}
+
+/**
+ * A persisted cache entry. The request is kept alongside the response so that
+ * recorded fixtures can be inspected (and diffed) by hand.
+ */
+export interface CacheEntry<T = any> {
+  key: string;
+  request: Record<string, any>;
+  response: T;
+  createdAt: string;
+}
+
+/**
+ * Thrown in "replay" mode when a request has no recorded response.
+ */
+export class CacheMissError extends Error {
+  public key: string;
+
+  constructor(key: string, request: Record<string, any>) {
+    const what = request.model?.model ? `${request.kind} request to ${request.model.model}` : `${request.kind} request`;
+    super(`No recorded response for ${what} (cache key ${key}). Re-run in "record" mode to capture it.`);
+    this.name = "CacheMissError";
+    this.key = key;
+    Object.setPrototypeOf(this, CacheMissError.prototype);
+  }
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted and undefined fields dropped,
+ * so that logically equal requests always produce the same cache key.
+ */
+export function stableStringify(value: any): string {
+  return JSON.stringify(sortKeys(value));
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === "object") {
+    const sorted: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      if (value[key] !== undefined) {
+        sorted[key] = sortKeys(value[key]);
+      }
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * A file-backed request/response cache shared by `CachingChatModel` and `CachingEmbeddings`.
+ * Requests are keyed by the SHA-256 of their stable JSON serialization.
+ */
+export class LLMCache {
+  public readonly directory: string;
+  public readonly mode: CacheMode;
+
+  constructor(options: LLMCacheOptions) {
+    this.directory = options.directory;
+    this.mode = options.mode ?? "record";
+  }
+
+  /**
+   * Computes the cache key for a request.
+   */
+  public static keyFor(request: Record<string, any>): string {
+    return createHash("sha256").update(stableStringify(request)).digest("hex");
+  }
+
+  /**
+   * Reads the entry for a key, or undefined if none was recorded.
+   */
+  public async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const raw = await fs.readFile(this.entryPath(key), "utf8");
+      return JSON.parse(raw) as CacheEntry<T>;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  /**
+   * Persists a response. Written to a temporary file first so that an interrupted
+   * run never leaves a truncated entry behind.
+   */
+  public async set<T>(key: string, request: Record<string, any>, response: T): Promise<void> {
+    const entry: CacheEntry<T> = { key, request, response, createdAt: new Date().toISOString() };
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.entryPath(key);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(entry, null, 2), "utf8");
+    await fs.rename(tmp, target);
+  }
+
+  /**
+   * Resolves a request according to the cache mode: returns the recorded response on a hit,
+   * otherwise calls `compute` (and records its result in "record" mode).
+   * `cached` tells the caller whether the value came from disk.
+   */
+  public async resolve<T>(
+    request: Record<string, any>,
+    compute: () => Promise<T>
+  ): Promise<{ value: T; cached: boolean }> {
+    if (this.mode === "passthrough") {
+      return { value: await compute(), cached: false };
+    }
+
+    const key = LLMCache.keyFor(request);
+    const entry = await this.get<T>(key);
+    if (entry) {
+      return { value: entry.response, cached: true };
+    }
+    if (this.mode === "replay") {
+      throw new CacheMissError(key, request);
+    }
+
+    const value = await compute();
+    await this.set(key, request, value);
+    return { value, cached: false };
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
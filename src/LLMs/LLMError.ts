@@ -0,0 +1,168 @@
+// src/LLMs/LLMError.ts
+
+/**
+ * Base class for errors raised by model wrappers (chat and embeddings).
+ * - status: HTTP status code, if the provider responded
+ * - retryable: whether retrying the same request may succeed
+ * - cause: the original underlying error (axios error, fetch response body, ...)
+ */
+export class LLMError extends Error {
+  public status?: number;
+  public retryable: boolean;
+  public cause?: unknown;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message);
+    this.name = "LLMError";
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+    Object.setPrototypeOf(this, LLMError.prototype);
+  }
+}
+
+/**
+ * The provider rejected the request because of rate or quota limits (HTTP 429).
+ * `retryAfterMs` is taken from the Retry-After headers when present.
+ */
+export class RateLimitError extends LLMError {
+  public retryAfterMs?: number;
+
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { status: options.status ?? 429, retryable: true, cause: options.cause });
+    this.name = "RateLimitError";
+    this.retryAfterMs = options.retryAfterMs;
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+  }
+}
+
+/**
+ * The API key is missing, invalid or lacks permission (HTTP 401/403). Never retried.
+ */
+export class AuthError extends LLMError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, { status: options.status, retryable: false, cause: options.cause });
+    this.name = "AuthError";
+    Object.setPrototypeOf(this, AuthError.prototype);
+  }
+}
+
+/**
+ * The prompt (plus requested completion) exceeds the model's context window. Never retried.
+ */
+export class ContextLengthError extends LLMError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, { status: options.status ?? 400, retryable: false, cause: options.cause });
+    this.name = "ContextLengthError";
+    Object.setPrototypeOf(this, ContextLengthError.prototype);
+  }
+}
+
+/**
+ * A model did not respond within its configured timeout. Retryable.
+ */
+export class ModelTimeoutError extends LLMError {
+  public timeoutMs: number;
+
+  constructor(message: string, options: { timeoutMs: number }) {
+    super(message, { retryable: true });
+    this.name = "ModelTimeoutError";
+    this.timeoutMs = options.timeoutMs;
+    Object.setPrototypeOf(this, ModelTimeoutError.prototype);
+  }
+}
+
+/**
+ * Every model of a FallbackChatModel failed (or none could take the request).
+ * `attempts` lists each model that was tried with its error; `cause` is the last error.
+ */
+export class AllModelsFailedError extends LLMError {
+  public attempts: { model: string; error: unknown }[];
+
+  constructor(message: string, options: { attempts: { model: string; error: unknown }[] }) {
+    const last = options.attempts[options.attempts.length - 1]?.error;
+    super(message, { retryable: last instanceof LLMError && last.retryable, cause: last });
+    this.name = "AllModelsFailedError";
+    this.attempts = options.attempts;
+    Object.setPrototypeOf(this, AllModelsFailedError.prototype);
+  }
+}
+
+/**
+ * Parses Retry-After style headers into milliseconds.
+ * Supports OpenAI's `retry-after-ms`, and `retry-after` as seconds or an HTTP date.
+ */
+export function parseRetryAfter(headers?: Record<string, any>): number | undefined {
+  if (!headers) return undefined;
+  const get = (name: string): string | undefined => {
+    const value = typeof headers.get === "function" ? headers.get(name) : headers[name];
+    return value == null ? undefined : String(value);
+  };
+
+  const ms = get("retry-after-ms");
+  if (ms && !isNaN(Number(ms))) {
+    return Number(ms);
+  }
+
+  const retryAfter = get("retry-after");
+  if (!retryAfter) return undefined;
+  if (!isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Maps an HTTP status + provider error body to the matching typed error.
+ */
+export function errorFromResponse(
+  status: number,
+  body: any,
+  headers?: Record<string, any>,
+  cause?: unknown
+): LLMError {
+  const apiError = body?.error ?? body;
+  const detail: string =
+    (typeof apiError === "string" ? apiError : apiError?.message) ?? `HTTP ${status}`;
+  const code: string = apiError?.code ?? apiError?.type ?? "";
+
+  if (status === 429) {
+    return new RateLimitError(`Rate limited: ${detail}`, {
+      status,
+      retryAfterMs: parseRetryAfter(headers),
+      cause,
+    });
+  }
+  if (status === 401 || status === 403) {
+    return new AuthError(`Authentication failed: ${detail}`, { status, cause });
+  }
+  if (
+    code === "context_length_exceeded" ||
+    /context length|context window|maximum context|too many tokens/i.test(detail)
+  ) {
+    return new ContextLengthError(`Context length exceeded: ${detail}`, { status, cause });
+  }
+
+  const retryable = status === 408 || status === 409 || status >= 500;
+  return new LLMError(`API error (${status}): ${detail}`, { status, retryable, cause });
+}
+
+/**
+ * Normalizes anything thrown by axios (or a network failure) into an LLMError.
+ */
+export function toLLMError(error: any): LLMError {
+  if (error instanceof LLMError) {
+    return error;
+  }
+  if (error?.response) {
+    return errorFromResponse(error.response.status, error.response.data, error.response.headers, error);
+  }
+
+  // No response at all: connection reset, DNS failure, timeout, ...
+  const transientCodes = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ECONNABORTED", "EAI_AGAIN", "EPIPE"];
+  const retryable =
+    transientCodes.includes(error?.code) ||
+    (error?.name === "TypeError" && /fetch failed|network/i.test(error?.message ?? ""));
+  return new LLMError(`Request failed: ${error?.message ?? String(error)}`, { retryable, cause: error });
+}
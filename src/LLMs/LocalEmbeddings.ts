@@ -0,0 +1,198 @@
+// src/LLMs/LocalEmbeddings.ts
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Embeddings } from "./Embeddings";
+
+/**
+ * Options for LocalEmbeddings.
+ * - dimensions: length of the produced vectors (default 1024)
+ * - wordNgrams: longest word n-gram used as a feature, 1 = single words only (default 2)
+ * - charNgrams: length of the character n-grams taken from each word, which makes
+ *   matching tolerant to inflections and typos; 0 disables them (default 3)
+ * - stopWords: words ignored entirely (default: a short English list)
+ * - vocabularyPath: JSON file the vocabulary is loaded from (on first use) and saved to
+ */
+export interface LocalEmbeddingsOptions {
+  dimensions?: number;
+  wordNgrams?: number;
+  charNgrams?: number;
+  stopWords?: string[];
+  vocabularyPath?: string;
+}
+
+/**
+ * Document frequencies learned by `fit`, as persisted to `vocabularyPath`.
+ */
+export interface LocalVocabulary {
+  documentCount: number;
+  documentFrequencies: Record<string, number>;
+}
+
+const DEFAULT_STOP_WORDS = [
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "i", "in",
+  "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was", "were", "will", "with",
+];
+
+/**
+ * An embedding model that runs entirely in-process, for deployments without access to an
+ * embeddings API. Texts are turned into hashed TF-IDF vectors over word n-grams and
+ * character n-grams ("feature hashing"), then L2-normalized, so cosine similarity behaves
+ * like a keyword-overlap score that also rewards shared rare terms.
+ *
+ * This captures lexical, not semantic, similarity: it works well for keyword-heavy
+ * documents (internal docs, tickets, code), not for paraphrases.
+ *
+ * Call `fit(corpus)` with the documents you will ingest so rare terms get higher weights
+ * (without it all terms weigh the same), and `save()` to persist the vocabulary.
+ * Vectors embedded before a `fit` use the old weights, so fit before ingesting.
+ */
+export class LocalEmbeddings implements Embeddings {
+  private dimensions: number;
+  private wordNgrams: number;
+  private charNgrams: number;
+  private stopWords: Set<string>;
+  private vocabularyPath?: string;
+  private vocabulary: LocalVocabulary = { documentCount: 0, documentFrequencies: {} };
+  private loading?: Promise<void>;
+
+  constructor(options: LocalEmbeddingsOptions = {}) {
+    this.dimensions = options.dimensions ?? 1024;
+    this.wordNgrams = Math.max(1, options.wordNgrams ?? 2);
+    this.charNgrams = Math.max(0, options.charNgrams ?? 3);
+    this.stopWords = new Set((options.stopWords ?? DEFAULT_STOP_WORDS).map((w) => w.toLowerCase()));
+    this.vocabularyPath = options.vocabularyPath;
+  }
+
+  /**
+   * Identifies this model. Includes the vocabulary size, so caches keyed on it
+   * do not serve vectors computed with different term weights.
+   */
+  public describe(): Record<string, any> {
+    return {
+      provider: "local",
+      dimensions: this.dimensions,
+      wordNgrams: this.wordNgrams,
+      charNgrams: this.charNgrams,
+      documentCount: this.vocabulary.documentCount,
+    };
+  }
+
+  public async embed(text: string): Promise<number[]> {
+    await this.ensureLoaded();
+    return this.vectorize(text);
+  }
+
+  public async embedBatch(texts: string[]): Promise<number[][]> {
+    await this.ensureLoaded();
+    return texts.map((text) => this.vectorize(text));
+  }
+
+  /**
+   * Adds documents to the vocabulary, updating the document frequencies used for IDF weights.
+   */
+  public async fit(texts: string[]): Promise<void> {
+    await this.ensureLoaded();
+    for (const text of texts) {
+      for (const feature of new Set(this.features(text))) {
+        this.vocabulary.documentFrequencies[feature] = (this.vocabulary.documentFrequencies[feature] ?? 0) + 1;
+      }
+      this.vocabulary.documentCount++;
+    }
+  }
+
+  /**
+   * Writes the vocabulary as JSON to `filePath` (default: the `vocabularyPath` option).
+   */
+  public async save(filePath: string | undefined = this.vocabularyPath): Promise<void> {
+    if (!filePath) {
+      throw new Error("LocalEmbeddings.save: no file path given and no vocabularyPath configured.");
+    }
+    await this.ensureLoaded();
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(this.vocabulary), "utf8");
+  }
+
+  /**
+   * Replaces the vocabulary with the one stored at `filePath` (default: the `vocabularyPath` option).
+   * A missing file leaves the vocabulary empty.
+   */
+  public async load(filePath: string | undefined = this.vocabularyPath): Promise<void> {
+    if (!filePath) return;
+    try {
+      this.vocabulary = JSON.parse(await fs.readFile(filePath, "utf8")) as LocalVocabulary;
+    } catch (err: any) {
+      if (err?.code !== "ENOENT") throw err;
+    }
+  }
+
+  public getVocabulary(): LocalVocabulary {
+    return this.vocabulary;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  private vectorize(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const feature of this.features(text)) {
+      counts.set(feature, (counts.get(feature) ?? 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const { documentCount, documentFrequencies } = this.vocabulary;
+    for (const [feature, count] of counts) {
+      const idf = Math.log((1 + documentCount) / (1 + (documentFrequencies[feature] ?? 0))) + 1;
+      const hash = fnv1a(feature);
+      // The sign bit keeps colliding features from always adding up
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count)) * idf;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+
+  /**
+   * Word n-grams ("w:") and per-word character n-grams ("c:") of the text.
+   */
+  private features(text: string): string[] {
+    const words = text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}_]+/u)
+      .filter((w) => w && !this.stopWords.has(w));
+
+    const features: string[] = [];
+    for (let n = 1; n <= this.wordNgrams; n++) {
+      for (let i = 0; i + n <= words.length; i++) {
+        features.push(`w:${words.slice(i, i + n).join(" ")}`);
+      }
+    }
+
+    if (this.charNgrams > 0) {
+      for (const word of words) {
+        const padded = `<${word}>`;
+        for (let i = 0; i + this.charNgrams <= padded.length; i++) {
+          features.push(`c:${padded.slice(i, i + this.charNgrams)}`);
+        }
+      }
+    }
+    return features;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash (unsigned).
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,296 @@
+// src/LLMs/MiddlewareChatModel.ts
+
+import {
+  ChatModel,
+  ChatMessage,
+  ChatResponse,
+  ChatCallOptions,
+  ChatStreamOptions,
+  StreamDelta,
+  ToolSchema,
+} from "./ChatModel";
+import { TokenUsage } from "./TokenUsage";
+
+/**
+ * A model request as seen by middleware. Middleware may rewrite `messages`, `tools` and
+ * `options` in place (e.g. redact PII, add headers) and annotate `metadata`, which starts
+ * as a copy of `options.metadata` and is shared by every middleware for this request.
+ * - kind: which ChatModel method was called
+ */
+export interface ModelRequest {
+  kind: "call" | "callWithTools" | "stream";
+  messages: ChatMessage[];
+  tools?: ToolSchema[];
+  options: ChatCallOptions;
+  metadata: Record<string, any>;
+}
+
+/**
+ * One step of a MiddlewareChatModel pipeline. All callbacks are optional and may be async.
+ * - beforeRequest: inspect or rewrite the request; returning a response short-circuits the
+ *   call (e.g. a cache hit) and skips the inner middleware and the model
+ * - afterResponse: inspect the response; returning a response replaces it. For streams the
+ *   deltas have already been delivered, so the assembled response is for inspection only
+ * - onError: called when the model (or an inner middleware) fails; returning a response
+ *   recovers with it, otherwise the error propagates
+ */
+export interface ModelMiddleware {
+  name?: string;
+  beforeRequest?(request: ModelRequest): MiddlewareResult;
+  afterResponse?(request: ModelRequest, response: ChatResponse): MiddlewareResult;
+  onError?(request: ModelRequest, error: unknown): MiddlewareResult;
+}
+
+export type MiddlewareResult = ChatResponse | void | Promise<ChatResponse | void>;
+
+/**
+ * Wraps any ChatModel with a middleware pipeline, so every component that takes a ChatModel
+ * (Agent, planners, memories, evaluators, routers, workflows) goes through it.
+ *
+ * Middleware runs like an onion: `beforeRequest` in order, `afterResponse` and `onError`
+ * in reverse order. Wrapping another MiddlewareChatModel nests its pipeline inside this one.
+ *
+ * `callWithTools` and `stream` are only available if the wrapped model provides them.
+ * A stream only recovers through `onError` if it fails before its first delta.
+ */
+export class MiddlewareChatModel implements ChatModel {
+  private model: ChatModel;
+  private middleware: ModelMiddleware[];
+
+  public callWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolSchema[],
+    options?: ChatCallOptions
+  ) => Promise<ChatResponse>;
+
+  public stream?: (messages: ChatMessage[], options?: ChatStreamOptions) => AsyncIterable<StreamDelta>;
+
+  constructor(model: ChatModel, middleware: ModelMiddleware[]) {
+    this.model = model;
+    this.middleware = [...middleware];
+
+    if (model.callWithTools) {
+      this.callWithTools = (messages, tools, options) =>
+        this.run(this.requestFor("callWithTools", messages, tools, options), (request) =>
+          this.model.callWithTools!(request.messages, request.tools ?? [], request.options)
+        );
+    }
+    if (model.stream) {
+      this.stream = (messages, options) => this.runStream(messages, options);
+    }
+  }
+
+  /**
+   * Appends a middleware to the end of the pipeline (closest to the model).
+   */
+  public use(middleware: ModelMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  public describe(): Record<string, any> {
+    return this.model.describe?.() ?? { model: this.model.constructor.name };
+  }
+
+  public async call(messages: ChatMessage[], options?: ChatCallOptions): Promise<string> {
+    const response = await this.run(this.requestFor("call", messages, undefined, options), async (request) => {
+      const usage = captureUsage(request.options);
+      const content = await this.model.call(request.messages, usage.options);
+      return { content, ...(usage.value() ? { usage: usage.value() } : {}) };
+    });
+    return response.content;
+  }
+
+  /**
+   * Runs the pipeline around `invoke`. When middleware answers instead of the model
+   * (short-circuit or recovery), the per-call onToken/onUsage callbacks still receive it.
+   */
+  private async run(
+    request: ModelRequest,
+    invoke: (request: ModelRequest) => Promise<ChatResponse>
+  ): Promise<ChatResponse> {
+    let modelAnswered = false;
+    const dispatch = async (i: number): Promise<ChatResponse> => {
+      if (i === this.middleware.length) {
+        const response = await invoke(request);
+        modelAnswered = true;
+        return response;
+      }
+      const mw = this.middleware[i];
+      try {
+        const shortCircuit = await mw.beforeRequest?.(request);
+        if (shortCircuit) return shortCircuit;
+        const response = await dispatch(i + 1);
+        return (await mw.afterResponse?.(request, response)) ?? response;
+      } catch (error) {
+        const recovered = await mw.onError?.(request, error);
+        if (recovered) {
+          modelAnswered = false;
+          return recovered;
+        }
+        throw error;
+      }
+    };
+
+    const response = await dispatch(0);
+    if (!modelAnswered) {
+      responseToDeltas(response).forEach((delta) => deliver(delta, request.options));
+    }
+    return response;
+  }
+
+  /**
+   * Streaming variant of run: `beforeRequest` runs before the stream is opened (a short-circuit
+   * response is replayed as deltas), `afterResponse` sees the assembled response once the stream
+   * completes, and `onError` can recover only until the first delta has been delivered.
+   */
+  private async *runStream(messages: ChatMessage[], options?: ChatStreamOptions): AsyncGenerator<StreamDelta> {
+    const request = this.requestFor("stream", messages, options?.tools, options);
+    let entered = 0;
+    let delivered = false;
+
+    try {
+      let shortCircuit: ChatResponse | void = undefined;
+      for (const mw of this.middleware) {
+        entered++;
+        shortCircuit = await mw.beforeRequest?.(request);
+        if (shortCircuit) break;
+      }
+
+      let response: ChatResponse;
+      if (shortCircuit) {
+        response = shortCircuit;
+        for (const delta of responseToDeltas(response)) {
+          deliver(delta, request.options);
+          delivered = true;
+          yield delta;
+        }
+        // The short-circuiting middleware does not see its own response
+        entered--;
+      } else {
+        const assembler = new ResponseAssembler();
+        const streamOptions: ChatStreamOptions = { ...request.options, tools: request.tools };
+        for await (const delta of this.model.stream!(request.messages, streamOptions)) {
+          assembler.add(delta);
+          delivered = true;
+          yield delta;
+        }
+        response = assembler.response();
+      }
+
+      for (let i = entered - 1; i >= 0; i--) {
+        response = (await this.middleware[i].afterResponse?.(request, response)) ?? response;
+      }
+    } catch (error) {
+      for (let i = entered - 1; i >= 0; i--) {
+        const recovered = await this.middleware[i].onError?.(request, error);
+        if (recovered && !delivered) {
+          for (const delta of responseToDeltas(recovered)) {
+            deliver(delta, request.options);
+            yield delta;
+          }
+          return;
+        }
+      }
+      throw error;
+    }
+  }
+
+  private requestFor(
+    kind: ModelRequest["kind"],
+    messages: ChatMessage[],
+    tools: ToolSchema[] | undefined,
+    options: ChatCallOptions | undefined
+  ): ModelRequest {
+    return {
+      kind,
+      messages: [...messages],
+      ...(tools ? { tools: [...tools] } : {}),
+      options: { ...options },
+      metadata: { ...options?.metadata },
+    };
+  }
+}
+
+/**
+ * Wraps `model` with the given middleware (see MiddlewareChatModel).
+ */
+export function withMiddleware(model: ChatModel, ...middleware: ModelMiddleware[]): MiddlewareChatModel {
+  return new MiddlewareChatModel(model, middleware);
+}
+
+/**
+ * Per-call options that also record the reported usage.
+ */
+function captureUsage(options: ChatCallOptions): { options: ChatCallOptions; value: () => TokenUsage | undefined } {
+  let usage: TokenUsage | undefined;
+  return {
+    options: {
+      ...options,
+      onUsage: (u) => {
+        usage = u;
+        options.onUsage?.(u);
+      },
+    },
+    value: () => usage,
+  };
+}
+
+/**
+ * Invokes the per-call callbacks a real stream would have invoked for a synthesized delta.
+ */
+function deliver(delta: StreamDelta, options: ChatCallOptions): void {
+  if (delta.type === "text") options.onToken?.(delta.text);
+  if (delta.type === "usage") options.onUsage?.(delta.usage);
+}
+
+/**
+ * A complete response as the deltas of a stream.
+ */
+function responseToDeltas(response: ChatResponse): StreamDelta[] {
+  const deltas: StreamDelta[] = [];
+  if (response.content) deltas.push({ type: "text", text: response.content });
+  (response.toolCalls ?? []).forEach((call, index) =>
+    deltas.push({ type: "tool_call", index, id: call.id, name: call.name, argumentsDelta: call.arguments })
+  );
+  if (response.usage) deltas.push({ type: "usage", usage: response.usage });
+  deltas.push({ type: "finish", reason: response.toolCalls && response.toolCalls.length > 0 ? "tool_calls" : "stop" });
+  return deltas;
+}
+
+/**
+ * Accumulates stream deltas into a ChatResponse.
+ */
+class ResponseAssembler {
+  private content = "";
+  private calls = new Map<number, { id: string; name: string; arguments: string }>();
+  private usage?: TokenUsage;
+
+  public add(delta: StreamDelta): void {
+    switch (delta.type) {
+      case "text":
+        this.content += delta.text;
+        break;
+      case "tool_call": {
+        const call = this.calls.get(delta.index) ?? { id: "", name: "", arguments: "" };
+        if (delta.id) call.id = delta.id;
+        if (delta.name) call.name = delta.name;
+        call.arguments += delta.argumentsDelta;
+        this.calls.set(delta.index, call);
+        break;
+      }
+      case "usage":
+        this.usage = delta.usage;
+        break;
+    }
+  }
+
+  public response(): ChatResponse {
+    const toolCalls = [...this.calls.entries()].sort((a, b) => a[0] - b[0]).map(([, call]) => call);
+    return {
+      content: this.content,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      ...(this.usage ? { usage: this.usage } : {}),
+    };
+  }
+}
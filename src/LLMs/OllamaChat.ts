@@ -0,0 +1,138 @@
+// src/LLMs/OllamaChat.ts
+import axios from "axios";
+import { ChatModel, ChatMessage, ChatCallOptions } from "./ChatModel";
+import { contentPartUrl, contentPartsToText } from "./ContentParts";
+import { usageFromOpenAI } from "./TokenUsage";
+import { RetryPolicy, withRetry } from "./RetryPolicy";
+import { isCancellation } from "../utils/Cancellation";
+
+/**
+ * Options for the OllamaChat class:
+ * - model: the local model name (e.g., "llama3.1")
+ * - temperature: creativity setting
+ * - baseUrl: root of the OpenAI-compatible API (Ollama serves it at http://localhost:11434/v1)
+ * - apiKey: optional, only sent if the server requires one (LM Studio, vLLM with --api-key, ...)
+ * - retry: retry/backoff policy for transient failures (429, 5xx, network errors)
+ */
+export interface OllamaChatOptions {
+  model: string;
+  temperature?: number;
+  baseUrl?: string;
+  apiKey?: string;
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * ChatModel adapter for Ollama or any other local server exposing
+ * an OpenAI-compatible `/chat/completions` endpoint.
+ */
+export class OllamaChat implements ChatModel {
+  private model: string;
+  private temperature: number;
+  private baseUrl: string;
+  private apiKey?: string;
+  private retryPolicy: Partial<RetryPolicy>;
+
+  constructor(options: OllamaChatOptions) {
+    this.model = options.model;
+    this.temperature = options.temperature ?? 0.7;
+    this.baseUrl = (options.baseUrl ?? "http://localhost:11434/v1").replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.retryPolicy = options.retry ?? {};
+
+    if (!this.model) {
+      throw new Error("Missing model name to the OllamaChat constructor.");
+    }
+  }
+
+  /**
+   * Identifies this model and its sampling parameters.
+   */
+  public describe(): Record<string, any> {
+    return {
+      provider: "openai-compatible",
+      baseUrl: this.baseUrl,
+      model: this.model,
+      temperature: this.temperature,
+    };
+  }
+
+  /**
+   * Calls the local `/chat/completions` endpoint with the specified messages.
+   * Roles the OpenAI schema does not know (e.g. "reflection") are sent as "user".
+   * Image parts are sent as `image_url` content (for vision models); file parts degrade to text.
+   * Token usage, if the server reports it, is passed to `options.onUsage`.
+   * `options.responseFormat` is sent as an OpenAI-style `response_format`, which recent
+   * Ollama versions honor and other servers may ignore.
+   * `options.sampling` overrides the temperature and can add maxTokens, topP, stop, seed and penalties.
+   * Transient failures are retried per the retry policy; failures surface as LLMError subclasses.
+   */
+  public async call(messages: ChatMessage[], options?: ChatCallOptions): Promise<string> {
+    const sampling = options?.sampling ?? {};
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    try {
+      const response = await withRetry(
+        () =>
+          axios.post(
+            `${this.baseUrl}/chat/completions`,
+            {
+              model: this.model,
+              temperature: sampling.temperature ?? this.temperature,
+              ...(sampling.maxTokens !== undefined ? { max_tokens: sampling.maxTokens } : {}),
+              ...(sampling.topP !== undefined ? { top_p: sampling.topP } : {}),
+              ...(sampling.stop ? { stop: sampling.stop } : {}),
+              ...(sampling.seed !== undefined ? { seed: sampling.seed } : {}),
+              ...(sampling.presencePenalty !== undefined ? { presence_penalty: sampling.presencePenalty } : {}),
+              ...(sampling.frequencyPenalty !== undefined ? { frequency_penalty: sampling.frequencyPenalty } : {}),
+              messages: messages.map((m) => this.toApiMessage(m)),
+              ...(options?.responseFormat
+                ? {
+                    response_format: {
+                      type: "json_schema",
+                      json_schema: {
+                        name: options.responseFormat.name,
+                        schema: options.responseFormat.schema,
+                        strict: options.responseFormat.strict ?? false
+                      }
+                    }
+                  }
+                : {}),
+              stream: false
+            },
+            { headers: { ...headers, ...options?.headers }, signal: options?.signal }
+          ),
+        this.retryPolicy,
+        options?.signal
+      );
+      const usage = usageFromOpenAI(response.data.usage, response.data.model ?? this.model);
+      if (usage && options?.onUsage) {
+        options.onUsage(usage);
+      }
+      return response.data.choices?.[0]?.message?.content?.trim() ?? "";
+    } catch (error: any) {
+      if (!isCancellation(error)) {
+        console.error(`Error calling local model server at ${this.baseUrl}:`, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private toApiMessage(m: ChatMessage): any {
+    const role = ["system", "user", "assistant"].includes(m.role) ? m.role : "user";
+    if (role !== "user" || !m.parts || m.parts.length === 0) {
+      return { role, content: m.content };
+    }
+    return {
+      role,
+      content: m.parts.map((part) =>
+        part.type === "image"
+          ? { type: "image_url", image_url: { url: contentPartUrl(part) } }
+          : { type: "text", text: part.type === "text" ? part.text : contentPartsToText([part]) }
+      )
+    };
+  }
+}
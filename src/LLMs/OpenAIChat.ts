@@ -1,122 +1,478 @@
 import axios from "axios";
+import {
+  ChatModel,
+  ChatMessage,
+  ChatResponse,
+  ChatCallOptions,
+  ChatStreamOptions,
+  StreamDelta,
+  ToolSchema,
+  ToolCall,
+  SamplingOptions,
+  ResponseFormat
+} from "./ChatModel";
+import { ContentPart, contentPartUrl } from "./ContentParts";
+import { readSSEStream } from "./SSEParser";
+import { isCancellation } from "../utils/Cancellation";
+import { usageFromOpenAI } from "./TokenUsage";
+import { errorFromResponse, LLMError, ContextLengthError } from "./LLMError";
+import { RetryPolicy, withRetry } from "./RetryPolicy";
+import { OpenAIEndpoint, OpenAIEndpointOptions } from "./OpenAIEndpoint";
 
 /**
  * Options for the OpenAIChat class:
- * - apiKey: your OpenAI API key
+ * - apiKey: your OpenAI API key (optional for custom baseUrls that need none)
  * - model: which ChatCompletion model to use (e.g., "gpt-4o-mini")
- * - temperature: creativity setting
- * - stream: whether to use streaming
- * - onToken: callback for streaming tokens
+ * - temperature, maxTokens, topP, stop, seed, presencePenalty, frequencyPenalty, logitBias, n:
+ *   default sampling parameters (temperature defaults to 0.7); override them per call with
+ *   `options.sampling`
+ * - responseFormat: default JSON schema for replies, overridable per call
+ * - responseFormatMode: how response formats are sent: "json_schema" (default), "json_object"
+ *   for servers without structured outputs, or "none" to rely on the prompt alone. If the server
+ *   rejects the response_format with a 400, that call falls back to the next mode
+ * - stream: whether `call` streams by default
+ * - onToken: default callback for streamed tokens (deprecated: pass `onToken` per call instead)
+ * - retry: retry/backoff policy for transient failures (429, 5xx, network errors)
+ * - streamUsage: ask for token usage on streams (`stream_options.include_usage`); defaults to
+ *   true for api.openai.com and false for other endpoints, some of which reject the field
+ * - baseUrl, azure, deployment, apiVersion, organization, project, headers, httpAgent, fetch:
+ *   endpoint settings for Azure OpenAI, gateways and OpenAI-compatible servers (see OpenAIEndpointOptions)
  */
-export interface OpenAIChatOptions {
-  apiKey: string;
+export interface OpenAIChatOptions extends OpenAIEndpointOptions, SamplingOptions {
+  apiKey?: string;
   model?: string;
-  temperature?: number;
+  responseFormat?: ResponseFormat;
+  responseFormatMode?: ResponseFormatMode;
   stream?: boolean;
   onToken?: (token: string) => void;
+  retry?: Partial<RetryPolicy>;
+  streamUsage?: boolean;
 }
 
-export class OpenAIChat {
-  private apiKey: string;
+export type ResponseFormatMode = "json_schema" | "json_object" | "none";
+
+export class OpenAIChat implements ChatModel {
+  private apiKey?: string;
   private model: string;
-  private temperature: number;
-  private stream: boolean;
+  private sampling: SamplingOptions;
+  private responseFormat?: ResponseFormat;
+  private responseFormatMode: ResponseFormatMode;
+  private streamByDefault: boolean;
   private onToken?: (token: string) => void;
+  private retryPolicy: Partial<RetryPolicy>;
+  private endpoint: OpenAIEndpoint;
+  private streamUsage: boolean;
 
   constructor(options: OpenAIChatOptions) {
     this.apiKey = options.apiKey;
     this.model = options.model ?? "gpt-4o-mini";
-    this.temperature = options.temperature ?? 0.7;
-    this.stream = options.stream ?? false;
+    this.sampling = {
+      temperature: options.temperature ?? 0.7,
+      maxTokens: options.maxTokens,
+      topP: options.topP,
+      stop: options.stop,
+      seed: options.seed,
+      presencePenalty: options.presencePenalty,
+      frequencyPenalty: options.frequencyPenalty,
+      logitBias: options.logitBias,
+      n: options.n
+    };
+    this.responseFormat = options.responseFormat;
+    this.responseFormatMode = options.responseFormatMode ?? "json_schema";
+    this.streamByDefault = options.stream ?? false;
     this.onToken = options.onToken;
+    this.retryPolicy = options.retry ?? {};
+    this.endpoint = new OpenAIEndpoint(this.apiKey, options);
+    this.streamUsage = options.streamUsage ?? this.endpoint.isDefault();
 
-    if (!this.apiKey) {
+    if (!this.apiKey && this.endpoint.isDefault()) {
       throw new Error("Missing OPENAI_API_KEY to the OpenAIChat constructor. Either pass it in or set it in the environment.");
     }
   }
 
+  /**
+   * Identifies this model and its sampling parameters.
+   */
+  public describe(): Record<string, any> {
+    return {
+      provider: "openai",
+      ...this.endpoint.describe(),
+      model: this.model,
+      ...definedFields(this.sampling),
+      ...(this.responseFormat ? { responseFormat: this.responseFormat } : {})
+    };
+  }
+
   /**
    * Calls the OpenAI ChatCompletion endpoint with the specified messages.
-   * If stream=true, handles partial token responses and calls onToken.
+   * Streams when the model was built with stream=true or when `options.onToken` is set,
+   * passing each text fragment to onToken.
+   * Token usage (for both paths) is reported through `options.onUsage`.
+   * Transient failures are retried per the retry policy; failures surface as
+   * LLMError subclasses (RateLimitError, AuthError, ContextLengthError).
    */
-  public async call(
-    messages: { role: string; content: string }[]
-  ): Promise<string> {
-    const url = "https://api.openai.com/v1/chat/completions";
+  public async call(messages: ChatMessage[], options?: ChatCallOptions): Promise<string> {
+    const url = this.endpoint.url("/chat/completions", this.model);
+    const onToken = options?.onToken ?? this.onToken;
 
     // Non-streaming path:
-    if (!this.stream) {
+    if (!this.streamByDefault && !options?.onToken) {
       try {
-        const response = await axios.post(
-          url,
-          {
-            model: this.model,
-            temperature: this.temperature,
-            messages
-          },
-          {
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": `Bearer ${this.apiKey}`
-            }
-          }
+        const response = await this.withFormatFallback(options, (mode) =>
+          withRetry(
+            () =>
+              axios.post(
+                url,
+                {
+                  model: this.model,
+                  ...this.toApiSampling(options),
+                  messages: this.toApiMessages(messages),
+                  ...this.toApiResponseFormat(options, mode)
+                },
+                this.endpoint.axiosConfig(options)
+              ),
+            this.retryPolicy,
+            options?.signal
+          )
         );
-        return response.data.choices?.[0]?.message?.content.trim() ?? "";
+        this.reportUsage(response.data.usage, response.data.model, options);
+        return response.data.choices?.[0]?.message?.content?.trim() ?? "";
       } catch (error: any) {
-        console.error("Error calling OpenAI API:", error?.response?.data || error.message);
+        if (!isCancellation(error)) {
+          console.error("Error calling OpenAI API:", error.message);
+        }
         throw error;
       }
     }
 
     // Streaming path:
-    const requestBody = {
-      model: this.model,
-      temperature: this.temperature,
-      messages,
-      stream: true
+    let finalText = "";
+    const streamOptions = {
+      onUsage: options?.onUsage,
+      signal: options?.signal,
+      responseFormat: options?.responseFormat,
+      sampling: options?.sampling,
+      headers: options?.headers
     };
+    for await (const delta of this.stream(messages, streamOptions)) {
+      if (delta.type === "text") {
+        finalText += delta.text;
+        if (onToken) onToken(delta.text);
+      }
+    }
+    return finalText.trim();
+  }
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${this.apiKey}`
-      },
-      body: JSON.stringify(requestBody)
+  /**
+   * Streams a ChatCompletion as typed deltas (text, tool-call fragments, usage, finish reason).
+   * `options.onToken` is also invoked for each text delta, and `options.onUsage` for the usage delta.
+   * Only establishing the stream is retried; a stream that fails midway is not replayed.
+   * Usage is only reported if `streamUsage` is on or the server sends it anyway.
+   */
+  public async *stream(
+    messages: ChatMessage[],
+    options?: ChatStreamOptions
+  ): AsyncGenerator<StreamDelta> {
+    const url = this.endpoint.url("/chat/completions", this.model);
+    const tools = options?.tools ?? [];
+
+    const requestBody = (mode: ResponseFormatMode) => ({
+      model: this.model,
+      ...this.toApiSampling(options),
+      messages: this.toApiMessages(messages),
+      ...(tools.length > 0 ? { tools: this.toApiTools(tools), tool_choice: "auto" } : {}),
+      ...this.toApiResponseFormat(options, mode),
+      stream: true,
+      ...(this.streamUsage ? { stream_options: { include_usage: true } } : {})
     });
 
-    if (!response.ok || !response.body) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+    const response = await this.withFormatFallback(options, (mode) =>
+      withRetry(async () => {
+        const res = await this.endpoint.post(url, requestBody(mode), options);
+
+        if (!res.ok || !res.body) {
+          const body = await res.json().catch(() => res.statusText);
+          throw errorFromResponse(res.status, body, res.headers);
+        }
+        return res;
+      }, this.retryPolicy, options?.signal)
+    );
+
+    for await (const event of readSSEStream(response.body!)) {
+      if (event.data === "[DONE]") {
+        return;
+      }
+
+      let data: any;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        continue; // not JSON (keep-alive or provider noise)
+      }
+
+      if (data?.error) {
+        throw errorFromResponse(500, data);
+      }
+
+      // The last chunk carries usage (with an empty choices array)
+      if (data?.usage) {
+        const usage = this.reportUsage(data.usage, data.model, options);
+        if (usage) yield { type: "usage", usage };
+      }
+
+      // With `n` > 1 the other completions' chunks are interleaved; only the first is streamed
+      const choice = (data?.choices ?? []).find((c: any) => (c.index ?? 0) === 0);
+      if (!choice) continue;
+
+      const content = choice.delta?.content;
+      if (content) {
+        if (options?.onToken) options.onToken(content);
+        yield { type: "text", text: content };
+      }
+
+      for (const call of choice.delta?.tool_calls ?? []) {
+        yield {
+          type: "tool_call",
+          index: call.index ?? 0,
+          ...(call.id ? { id: call.id } : {}),
+          ...(call.function?.name ? { name: call.function.name } : {}),
+          argumentsDelta: call.function?.arguments ?? ""
+        };
+      }
+
+      if (choice.finish_reason) {
+        yield { type: "finish", reason: choice.finish_reason };
+      }
     }
+  }
 
-    const reader = response.body.getReader();
-    let finalText = "";
+  /**
+   * Calls the ChatCompletion endpoint with native function calling enabled.
+   * Tool schemas are sent as `tools`, and any `tool_calls` in the reply are returned
+   * alongside the text content. Always non-streaming.
+   */
+  public async callWithTools(
+    messages: ChatMessage[],
+    tools: ToolSchema[],
+    options?: ChatCallOptions
+  ): Promise<ChatResponse> {
+    const url = this.endpoint.url("/chat/completions", this.model);
+
+    try {
+      const response = await this.withFormatFallback(options, (mode) =>
+        withRetry(
+          () =>
+            axios.post(
+              url,
+              {
+                model: this.model,
+                ...this.toApiSampling(options),
+                messages: this.toApiMessages(messages),
+                ...(tools.length > 0 ? { tools: this.toApiTools(tools), tool_choice: "auto" } : {}),
+                ...this.toApiResponseFormat(options, mode)
+              },
+              this.endpoint.axiosConfig(options)
+            ),
+          this.retryPolicy,
+          options?.signal
+        )
+      );
+
+      const message = response.data.choices?.[0]?.message ?? {};
+      const toolCalls: ToolCall[] = (message.tool_calls ?? [])
+        .filter((c: any) => c.type === "function")
+        .map((c: any) => ({
+          id: c.id,
+          name: c.function.name,
+          arguments: c.function.arguments ?? ""
+        }));
+
+      const usage = this.reportUsage(response.data.usage, response.data.model, options);
+      const choices: string[] = (response.data.choices ?? []).map((c: any) => (c.message?.content ?? "").trim());
+
+      return {
+        content: (message.content ?? "").trim(),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        ...(usage ? { usage } : {}),
+        ...(choices.length > 1 ? { choices } : {})
+      };
+    } catch (error: any) {
+      if (!isCancellation(error)) {
+        console.error("Error calling OpenAI API:", error.message);
+      }
+      throw error;
+    }
+  }
 
+  /**
+   * Converts a raw `usage` block and hands it to the per-call onUsage callback.
+   * The model reported by the API (e.g. a dated snapshot) is preferred for pricing.
+   */
+  private reportUsage(rawUsage: any, servedModel: string | undefined, options?: ChatCallOptions) {
+    const usage = usageFromOpenAI(rawUsage, servedModel ?? this.model);
+    if (usage && options?.onUsage) {
+      options.onUsage(usage);
+    }
+    return usage;
+  }
+
+  /**
+   * Maps tool schemas to the ChatCompletion `tools` format.
+   */
+  private toApiTools(tools: ToolSchema[]): any[] {
+    return tools.map((t) => ({
+      type: "function",
+      function: { name: t.name, description: t.description, parameters: t.parameters }
+    }));
+  }
+
+  /**
+   * Maps the model's sampling parameters, overridden by `options.sampling`, to ChatCompletion fields.
+   */
+  private toApiSampling(options?: ChatCallOptions): Record<string, any> {
+    const sampling = { ...this.sampling, ...definedFields(options?.sampling ?? {}) };
+    return definedFields({
+      temperature: sampling.temperature,
+      max_tokens: sampling.maxTokens,
+      top_p: sampling.topP,
+      stop: sampling.stop,
+      seed: sampling.seed,
+      presence_penalty: sampling.presencePenalty,
+      frequency_penalty: sampling.frequencyPenalty,
+      logit_bias: sampling.logitBias,
+      n: sampling.n
+    });
+  }
+
+  /**
+   * Maps the response format (`options.responseFormat`, else the model's default) to the
+   * ChatCompletion `response_format` field, per `mode`.
+   */
+  private toApiResponseFormat(options: ChatCallOptions | undefined, mode: ResponseFormatMode): Record<string, any> {
+    const format = options?.responseFormat ?? this.responseFormat;
+    if (!format || mode === "none") return {};
+    if (mode === "json_object") {
+      return { response_format: { type: "json_object" } };
+    }
+    return {
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: format.name, schema: format.schema, strict: format.strict ?? false }
+      }
+    };
+  }
+
+  /**
+   * Runs `send` with the configured responseFormatMode, and if the server rejects the request's
+   * response_format with a 400, sends it again with the next mode (json_schema, then json_object,
+   * then none). The downgrade only applies to this call; set responseFormatMode to make it stick.
+   * The schema is still described in the prompt by callStructured, which validates the reply.
+   */
+  private async withFormatFallback<T>(
+    options: ChatCallOptions | undefined,
+    send: (mode: ResponseFormatMode) => Promise<T>
+  ): Promise<T> {
+    let mode = this.responseFormatMode;
     while (true) {
-      const { value, done } = await reader.read();
-      if (done) break;
-      const chunk = new TextDecoder().decode(value);
-      const lines = chunk.split("\n").filter(line => line.trim() !== "");
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const dataStr = line.replace("data: ", "");
-          if (dataStr === "[DONE]") {
-            break;
-          }
-          try {
-            const data = JSON.parse(dataStr);
-            const content = data?.choices?.[0]?.delta?.content;
-            if (content) {
-              finalText += content;
-              if (this.onToken) this.onToken(content);
-            }
-          } catch {
-            // ignore keep-alive or invalid lines
-          }
+      try {
+        return await send(mode);
+      } catch (error) {
+        const formatSent = !!(options?.responseFormat ?? this.responseFormat) && mode !== "none";
+        if (!formatSent || !isResponseFormatRejection(error)) {
+          throw error;
         }
+        const next: ResponseFormatMode = mode === "json_schema" ? "json_object" : "none";
+        console.warn(
+          `OpenAIChat: the server rejected response_format "${mode}" (${(error as Error).message}), retrying with "${next}".`
+        );
+        mode = next;
       }
     }
+  }
 
-    return finalText.trim();
+  /**
+   * Maps our messages to the ChatCompletion wire format.
+   * User messages with content parts are sent as multimodal content arrays.
+   * Tool results whose originating assistant tool call is no longer in the
+   * context (e.g. trimmed by ShortTermMemory) are sent as plain assistant text,
+   * since the API rejects orphaned "tool" messages.
+   */
+  private toApiMessages(messages: ChatMessage[]): any[] {
+    const knownCallIds = new Set<string>();
+
+    return messages.map((m) => {
+      if (m.toolCalls && m.toolCalls.length > 0) {
+        m.toolCalls.forEach((c) => knownCallIds.add(c.id));
+        return {
+          role: "assistant",
+          content: m.content || null,
+          tool_calls: m.toolCalls.map((c) => ({
+            id: c.id,
+            type: "function",
+            function: { name: c.name, arguments: c.arguments }
+          }))
+        };
+      }
+
+      if (m.role === "tool") {
+        if (m.toolCallId && knownCallIds.has(m.toolCallId)) {
+          return { role: "tool", tool_call_id: m.toolCallId, content: m.content };
+        }
+        return { role: "assistant", content: `Tool result:\n${m.content}` };
+      }
+
+      if (m.parts && m.parts.length > 0 && m.role === "user") {
+        return { role: "user", content: m.parts.map((p) => this.toApiContentPart(p)) };
+      }
+
+      return { role: m.role, content: m.content };
+    });
+  }
+
+  /**
+   * Maps a content part to the ChatCompletion content-part format.
+   */
+  private toApiContentPart(part: ContentPart): any {
+    switch (part.type) {
+      case "text":
+        return { type: "text", text: part.text };
+      case "image":
+        return {
+          type: "image_url",
+          image_url: { url: contentPartUrl(part), ...(part.detail ? { detail: part.detail } : {}) }
+        };
+      case "file":
+        return {
+          type: "file",
+          file: part.fileId
+            ? { file_id: part.fileId }
+            : { file_data: contentPartUrl(part), filename: part.filename ?? "file" }
+        };
+    }
+  }
+}
+
+/**
+ * Whether `error` is a 400 that names the response format (in its message, or the `param` or
+ * `code` of the API error body), as opposed to any other bad request.
+ */
+function isResponseFormatRejection(error: unknown): boolean {
+  if (!(error instanceof LLMError) || error.status !== 400 || error instanceof ContextLengthError) {
+    return false;
+  }
+  const apiError = (error.cause as any)?.response?.data?.error;
+  return [error.message, apiError?.param, apiError?.code].some(
+    (text) => typeof text === "string" && /response_format|json_schema|json_object/i.test(text)
+  );
+}
+
+/**
+ * Drops undefined fields, so unset parameters are neither sent nor part of describe().
+ */
+function definedFields<T extends Record<string, any>>(value: T): Partial<T> {
+  const result: Partial<T> = {};
+  for (const key of Object.keys(value) as (keyof T)[]) {
+    if (value[key] !== undefined) result[key] = value[key];
   }
+  return result;
 }
@@ -1,47 +1,131 @@
 // src/LLMs/OpenAIEmbeddings.ts
 import axios from "axios";
+import { RetryPolicy, withRetry } from "./RetryPolicy";
+import { isCancellation } from "../utils/Cancellation";
+import { mapWithConcurrency } from "../utils/Concurrency";
+import { Embeddings } from "./Embeddings";
+import { OpenAIEndpoint, OpenAIEndpointOptions } from "./OpenAIEndpoint";
 
-export interface OpenAIEmbeddingsOptions {
-  apiKey: string;
+/**
+ * Options for OpenAIEmbeddings.
+ * - batchSize: max inputs per embeddings request in embedBatch (API limit: 2048)
+ * - maxBatchTokens: approximate token cap per request, estimated at 4 characters per token
+ *   (API limit: 300k tokens per request)
+ * - maxConcurrency: max embedBatch requests in flight (-1 = unlimited)
+ * - baseUrl, azure, deployment, apiVersion, organization, project, headers, httpAgent:
+ *   endpoint settings, as for OpenAIChat (see OpenAIEndpointOptions)
+ */
+export interface OpenAIEmbeddingsOptions extends OpenAIEndpointOptions {
+  apiKey?: string;
   model?: string;
+  retry?: Partial<RetryPolicy>;
+  batchSize?: number;
+  maxBatchTokens?: number;
+  maxConcurrency?: number;
 }
 
-export class OpenAIEmbeddings {
-  private apiKey: string;
+export class OpenAIEmbeddings implements Embeddings {
+  private apiKey?: string;
   private model: string;
+  private retryPolicy: Partial<RetryPolicy>;
+  private batchSize: number;
+  private maxBatchTokens: number;
+  private maxConcurrency: number;
+  private endpoint: OpenAIEndpoint;
 
   constructor(options: OpenAIEmbeddingsOptions) {
     this.apiKey = options.apiKey;
     this.model = options.model ?? "text-embedding-3-small";
+    this.retryPolicy = options.retry ?? {};
+    this.batchSize = Math.min(options.batchSize ?? 2048, 2048);
+    this.maxBatchTokens = options.maxBatchTokens ?? 250000;
+    this.maxConcurrency = options.maxConcurrency ?? 4;
+    this.endpoint = new OpenAIEndpoint(this.apiKey, options);
 
-    if (!this.apiKey) {
+    if (!this.apiKey && this.endpoint.isDefault()) {
       throw new Error("Missing OPENAI_API_KEY to the OpenAIChat constructor. Either pass it in or set it in the environment.");
     }
   }
 
+  /**
+   * Identifies this embedding model.
+   */
+  public describe(): Record<string, any> {
+    return { provider: "openai", ...this.endpoint.describe(), model: this.model };
+  }
+
   /**
    * Returns a single embedding vector for the given text.
+   * Transient failures are retried per the retry policy; failures surface as LLMError subclasses.
+   * Aborting `options.signal` cancels the request with a CancelledError.
+   */
+  public async embed(text: string, options?: { signal?: AbortSignal }): Promise<number[]> {
+    const [vector] = await this.request(text, options);
+    return vector;
+  }
+
+  /**
+   * Returns one embedding per text, in input order. Inputs are split into requests of at most
+   * `batchSize` texts and roughly `maxBatchTokens` tokens, sent with at most `maxConcurrency`
+   * requests in flight. Each request is retried independently.
+   */
+  public async embedBatch(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]> {
+    const batches = this.toBatches(texts);
+    const results = await mapWithConcurrency(batches, this.maxConcurrency, (batch) =>
+      this.request(batch, options)
+    );
+    return results.flat();
+  }
+
+  /**
+   * Splits texts into consecutive batches that respect the per-request limits.
+   */
+  private toBatches(texts: string[]): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    for (const text of texts) {
+      const tokens = Math.ceil(text.length / 4);
+      if (current.length > 0 && (current.length >= this.batchSize || currentTokens + tokens > this.maxBatchTokens)) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(text);
+      currentTokens += tokens;
+    }
+    if (current.length > 0) {
+      batches.push(current);
+    }
+    return batches;
+  }
+
+  /**
+   * Sends one embeddings request and returns the vectors in input order.
    */
-  public async embed(text: string): Promise<number[]> {
+  private async request(input: string | string[], options?: { signal?: AbortSignal }): Promise<number[][]> {
     try {
-      const url = "https://api.openai.com/v1/embeddings";
-      const response = await axios.post(
-        url,
-        {
-          input: text,
-          model: this.model
-        },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${this.apiKey}`
-          }
-        }
+      const url = this.endpoint.url("/embeddings", this.model);
+      const response = await withRetry(
+        () =>
+          axios.post(
+            url,
+            {
+              input,
+              model: this.model
+            },
+            this.endpoint.axiosConfig(options)
+          ),
+        this.retryPolicy,
+        options?.signal
       );
-      const vector = response.data.data[0].embedding as number[];
-      return vector;
+      const data = [...response.data.data].sort((a: any, b: any) => a.index - b.index);
+      return data.map((d: any) => d.embedding as number[]);
     } catch (err: any) {
-      console.error("Error embedding text:", err?.response?.data || err.message);
+      if (!isCancellation(err)) {
+        console.error("Error embedding text:", err.message);
+      }
       throw err;
     }
   }
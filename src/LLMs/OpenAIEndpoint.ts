@@ -0,0 +1,152 @@
+// src/LLMs/OpenAIEndpoint.ts
+
+import { AxiosRequestConfig } from "axios";
+
+/**
+ * Connection options shared by OpenAIChat and OpenAIEmbeddings:
+ * - baseUrl: root of the API (default https://api.openai.com/v1); point it at an internal
+ *   gateway or an OpenAI-compatible server (vLLM, LM Studio, ...). For Azure OpenAI, use the
+ *   resource endpoint, e.g. https://my-resource.openai.azure.com
+ * - azure: use Azure OpenAI conventions (deployment URLs, `api-key` header, `api-version`);
+ *   detected automatically from an `*.azure.com` baseUrl
+ * - deployment: Azure deployment name (default: the model name)
+ * - apiVersion: sent as the `api-version` query parameter (Azure default: "2024-10-21")
+ * - organization / project: sent as the OpenAI-Organization / OpenAI-Project headers
+ * - headers: extra headers sent with every request (e.g. gateway credentials, tenant IDs)
+ * - httpAgent: Node http(s) agent for the axios requests, e.g. a proxy agent
+ * - fetch: fetch implementation used for streaming, e.g. one bound to a proxy dispatcher
+ */
+export interface OpenAIEndpointOptions {
+  baseUrl?: string;
+  azure?: boolean;
+  deployment?: string;
+  apiVersion?: string;
+  organization?: string;
+  project?: string;
+  headers?: Record<string, string>;
+  httpAgent?: any;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Per-request settings: cancellation and extra headers.
+ */
+export interface EndpointRequestOptions {
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+}
+
+export const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+/**
+ * Builds the URLs and headers for an OpenAI-style API: api.openai.com, Azure OpenAI or any
+ * OpenAI-compatible server.
+ */
+export class OpenAIEndpoint {
+  public readonly baseUrl: string;
+  public readonly azure: boolean;
+  private apiKey?: string;
+  private deployment?: string;
+  private apiVersion?: string;
+  private organization?: string;
+  private project?: string;
+  private headers: Record<string, string>;
+  private httpAgent?: any;
+  private fetchImpl?: typeof fetch;
+
+  constructor(apiKey: string | undefined, options: OpenAIEndpointOptions = {}) {
+    this.apiKey = apiKey;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+    this.azure = options.azure ?? /\.azure\.com$/i.test(hostOf(this.baseUrl));
+    this.deployment = options.deployment;
+    this.apiVersion = options.apiVersion ?? (this.azure ? DEFAULT_AZURE_API_VERSION : undefined);
+    this.organization = options.organization;
+    this.project = options.project;
+    this.headers = options.headers ?? {};
+    this.httpAgent = options.httpAgent;
+    this.fetchImpl = options.fetch;
+  }
+
+  /**
+   * Whether requests go to api.openai.com (which requires an API key).
+   */
+  public isDefault(): boolean {
+    return this.baseUrl === DEFAULT_OPENAI_BASE_URL;
+  }
+
+  /**
+   * The URL of an API path such as "/chat/completions". On Azure the path is served from
+   * the deployment of `model`.
+   */
+  public url(path: string, model: string): string {
+    let url: string;
+    if (this.azure) {
+      const root = /\/openai$/.test(this.baseUrl) ? this.baseUrl : `${this.baseUrl}/openai`;
+      url = `${root}/deployments/${encodeURIComponent(this.deployment ?? model)}${path}`;
+    } else {
+      url = `${this.baseUrl}${path}`;
+    }
+    return this.apiVersion ? `${url}?api-version=${encodeURIComponent(this.apiVersion)}` : url;
+  }
+
+  /**
+   * Request headers: content type, auth (`api-key` on Azure, a bearer token elsewhere),
+   * organization/project, then the custom headers and the per-request `extra` headers,
+   * which win on conflicts.
+   */
+  public requestHeaders(extra?: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      if (this.azure) headers["api-key"] = this.apiKey;
+      else headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+    if (this.organization) headers["OpenAI-Organization"] = this.organization;
+    if (this.project) headers["OpenAI-Project"] = this.project;
+    return { ...headers, ...this.headers, ...extra };
+  }
+
+  /**
+   * axios request config (headers, proxy agent, cancellation).
+   */
+  public axiosConfig(request: EndpointRequestOptions = {}): AxiosRequestConfig {
+    return {
+      headers: this.requestHeaders(request.headers),
+      ...(this.httpAgent ? { httpAgent: this.httpAgent, httpsAgent: this.httpAgent } : {}),
+      signal: request.signal,
+    };
+  }
+
+  /**
+   * POSTs a JSON body with fetch (used for streaming).
+   */
+  public post(url: string, body: unknown, request: EndpointRequestOptions = {}): Promise<Response> {
+    const fetchImpl = this.fetchImpl ?? fetch;
+    return fetchImpl(url, {
+      method: "POST",
+      headers: this.requestHeaders(request.headers),
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+  }
+
+  /**
+   * Identifies the endpoint for describe(); empty for the default OpenAI API.
+   */
+  public describe(): Record<string, any> {
+    if (this.isDefault() && !this.azure) return {};
+    return {
+      baseUrl: this.baseUrl,
+      ...(this.azure ? { deployment: this.deployment } : {}),
+      ...(this.apiVersion ? { apiVersion: this.apiVersion } : {}),
+    };
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,90 @@
+// src/LLMs/Pricing.ts
+
+import { TokenUsage } from "./TokenUsage";
+
+/**
+ * Price of a model in USD per one million tokens.
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Maps model names (or name prefixes, e.g. "gpt-4o-mini" for "gpt-4o-mini-2024-07-18") to prices.
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * List prices at the time of writing. Override or extend them via the `priceTable` option,
+ * since providers change prices and negotiated rates differ.
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4.1-nano": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+  "gpt-4-turbo": { inputPerMillion: 10, outputPerMillion: 30 },
+  "gpt-3.5-turbo": { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  "o3-mini": { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  "o1-mini": { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  "o1": { inputPerMillion: 15, outputPerMillion: 60 },
+  "claude-3-5-haiku": { inputPerMillion: 0.8, outputPerMillion: 4 },
+  "claude-3-5-sonnet": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-3-7-sonnet": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-3-opus": { inputPerMillion: 15, outputPerMillion: 75 },
+  "claude-3-haiku": { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+};
+
+/**
+ * Looks up the price of a model: exact match first, then the longest matching name prefix.
+ */
+export function findModelPrice(model: string, table: PriceTable = DEFAULT_PRICE_TABLE): ModelPrice | undefined {
+  if (table[model]) {
+    return table[model];
+  }
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Computes the USD cost of a single call's usage. Returns 0 if the model is unknown
+ * (or not reported), so unpriced models never trip a budget.
+ */
+export function computeCost(usage: TokenUsage, table: PriceTable = DEFAULT_PRICE_TABLE): number {
+  if (!usage.model) return 0;
+  const price = findModelPrice(usage.model, table);
+  if (!price) return 0;
+  return (
+    (usage.promptTokens / 1_000_000) * price.inputPerMillion +
+    (usage.completionTokens / 1_000_000) * price.outputPerMillion
+  );
+}
+
+/**
+ * A spend counter shared by everything taking part in one run (e.g. all agents of a team),
+ * so a dollar budget can be enforced across them mid-run. `maxCostUsd` of -1 means unlimited.
+ */
+export class CostBudget {
+  public readonly maxCostUsd: number;
+  private spentUsd = 0;
+
+  constructor(maxCostUsd: number) {
+    this.maxCostUsd = maxCostUsd;
+  }
+
+  public add(costUsd: number): void {
+    this.spentUsd += costUsd;
+  }
+
+  public get spent(): number {
+    return this.spentUsd;
+  }
+
+  public isExhausted(): boolean {
+    return this.maxCostUsd !== -1 && this.spentUsd >= this.maxCostUsd;
+  }
+}
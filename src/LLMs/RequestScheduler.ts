@@ -0,0 +1,226 @@
+// src/LLMs/RequestScheduler.ts
+
+import { CancelledError } from "../utils/Cancellation";
+
+/**
+ * Priority lanes, highest first. Queued requests are started lane by lane, so interactive
+ * requests go ahead of everything queued in the default and background lanes.
+ */
+export type RequestPriority = "interactive" | "default" | "background";
+
+const LANES: RequestPriority[] = ["interactive", "default", "background"];
+
+/**
+ * Options for RequestScheduler (-1 = unlimited, the default for each):
+ * - maxConcurrent: requests in flight at once
+ * - requestsPerMinute: requests started in any 60-second window
+ * - tokensPerMinute: tokens used in any 60-second window, counted from each request's
+ *   estimate when it starts and corrected to its reported usage when it completes
+ */
+export interface RequestSchedulerOptions {
+  maxConcurrent?: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * Per-request scheduling options.
+ * - priority: lane to queue in (default "default")
+ * - tokens: estimated tokens the request will use, for tokensPerMinute
+ * - signal: aborting it while the request is queued removes it and rejects with CancelledError
+ */
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  tokens?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A started request's slot. Call `release` exactly once when the request completes,
+ * with the actual tokens used if known.
+ */
+export interface SchedulerPermit {
+  release(actualTokens?: number): void;
+}
+
+/**
+ * A snapshot of the scheduler's state.
+ */
+export interface SchedulerStats {
+  running: number;
+  queued: Record<RequestPriority, number>;
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  tokens: number;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  resolve: (permit: SchedulerPermit) => void;
+  reject: (error: unknown) => void;
+}
+
+interface WindowEntry {
+  startedAt: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60000;
+
+/**
+ * Shares account-level limits (concurrency, requests and tokens per minute) between every
+ * model call that goes through it, e.g. all agents of an AgentTeam. Attach models with
+ * ScheduledChatModel. Requests wait in priority lanes and start in order: higher lanes
+ * first, first-in first-out within a lane. Requests already in flight are never interrupted.
+ */
+export class RequestScheduler {
+  private maxConcurrent: number;
+  private requestsPerMinute: number;
+  private tokensPerMinute: number;
+  private running = 0;
+  private queues: Record<RequestPriority, QueuedRequest[]> = { interactive: [], default: [], background: [] };
+  private window: WindowEntry[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? -1;
+    this.requestsPerMinute = options.requestsPerMinute ?? -1;
+    this.tokensPerMinute = options.tokensPerMinute ?? -1;
+  }
+
+  /**
+   * Waits for a slot and returns its permit.
+   */
+  public acquire(options: ScheduleOptions = {}): Promise<SchedulerPermit> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new CancelledError());
+    }
+
+    return new Promise<SchedulerPermit>((resolve, reject) => {
+      const request: QueuedRequest = {
+        priority: options.priority ?? "default",
+        tokens: Math.max(0, options.tokens ?? 0),
+        signal: options.signal,
+        resolve,
+        reject,
+      };
+      if (options.signal) {
+        request.onAbort = () => {
+          const queue = this.queues[request.priority];
+          const index = queue.indexOf(request);
+          if (index !== -1) {
+            queue.splice(index, 1);
+            reject(new CancelledError());
+            this.pump();
+          }
+        };
+        options.signal.addEventListener("abort", request.onAbort, { once: true });
+      }
+      this.queues[request.priority].push(request);
+      this.pump();
+    });
+  }
+
+  /**
+   * Runs `task` once a slot is available and releases the slot when it settles.
+   * `task` can pass the actual tokens used to its `reportTokens` argument.
+   */
+  public async schedule<T>(
+    task: (reportTokens: (tokens: number) => void) => Promise<T>,
+    options: ScheduleOptions = {}
+  ): Promise<T> {
+    const permit = await this.acquire(options);
+    let actualTokens: number | undefined;
+    try {
+      return await task((tokens) => {
+        actualTokens = tokens;
+      });
+    } finally {
+      permit.release(actualTokens);
+    }
+  }
+
+  public getStats(): SchedulerStats {
+    this.pruneWindow(Date.now());
+    return {
+      running: this.running,
+      queued: {
+        interactive: this.queues.interactive.length,
+        default: this.queues.default.length,
+        background: this.queues.background.length,
+      },
+      requestsLastMinute: this.window.length,
+      tokensLastMinute: this.windowTokens(),
+    };
+  }
+
+  /**
+   * Starts queued requests while the limits allow, highest lane first. If only the
+   * per-minute budgets block the next request, retries when the oldest entry leaves the window.
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (true) {
+      const lane = LANES.find((l) => this.queues[l].length > 0);
+      if (!lane) return;
+      if (this.maxConcurrent !== -1 && this.running >= this.maxConcurrent) return;
+
+      const now = Date.now();
+      this.pruneWindow(now);
+      const next = this.queues[lane][0];
+      if (!this.fitsWindow(next.tokens)) {
+        const retryIn = this.window[0].startedAt + WINDOW_MS - now;
+        this.timer = setTimeout(() => this.pump(), Math.max(1, retryIn));
+        return;
+      }
+
+      this.queues[lane].shift();
+      if (next.onAbort) next.signal?.removeEventListener("abort", next.onAbort);
+      this.start(next, now);
+    }
+  }
+
+  private start(request: QueuedRequest, now: number): void {
+    const entry: WindowEntry = { startedAt: now, tokens: request.tokens };
+    this.window.push(entry);
+    this.running++;
+
+    let released = false;
+    request.resolve({
+      release: (actualTokens?: number) => {
+        if (released) return;
+        released = true;
+        if (actualTokens !== undefined) entry.tokens = actualTokens;
+        this.running--;
+        this.pump();
+      },
+    });
+  }
+
+  /**
+   * Whether a request of `tokens` can start now. With nothing in the window, any request
+   * may start, so a single request above the token budget cannot block the queue forever.
+   */
+  private fitsWindow(tokens: number): boolean {
+    if (this.window.length === 0) return true;
+    if (this.requestsPerMinute !== -1 && this.window.length >= this.requestsPerMinute) return false;
+    if (this.tokensPerMinute !== -1 && this.windowTokens() + tokens > this.tokensPerMinute) return false;
+    return true;
+  }
+
+  private pruneWindow(now: number): void {
+    while (this.window.length > 0 && this.window[0].startedAt + WINDOW_MS <= now) {
+      this.window.shift();
+    }
+  }
+
+  private windowTokens(): number {
+    return this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+  }
+}
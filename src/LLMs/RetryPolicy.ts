@@ -0,0 +1,79 @@
+// src/LLMs/RetryPolicy.ts
+
+import { LLMError, RateLimitError, toLLMError } from "./LLMError";
+import { CancelledError, isCancellation, sleep } from "../utils/Cancellation";
+
+/**
+ * Controls how model wrappers retry failed requests:
+ * - maxRetries: retries after the first attempt (0 disables retrying)
+ * - initialDelayMs: backoff before the first retry
+ * - maxDelayMs: upper bound for any single backoff
+ * - backoffMultiplier: growth factor between consecutive backoffs
+ * - jitter: randomize each backoff ("full jitter") to avoid thundering herds
+ * - onRetry: optional callback invoked before each retry sleep
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  jitter: boolean;
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+  jitter: true,
+};
+
+/**
+ * Computes the delay before retry number `attempt` (1-based).
+ * A Retry-After hint from the provider takes precedence over the backoff schedule,
+ * but is capped at maxDelayMs like any other backoff.
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, error: LLMError): number {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1)
+  );
+  return policy.jitter ? Math.round(Math.random() * base) : base;
+}
+
+/**
+ * Runs `fn`, retrying retryable LLMErrors according to the policy.
+ * Non-retryable errors (auth, context length, bad request) are thrown immediately.
+ * Anything thrown is normalized into an LLMError, except cancellation: if `signal`
+ * aborts, a CancelledError is thrown and no further attempts are made.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: Partial<RetryPolicy> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const resolved: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (signal?.aborted || isCancellation(err)) {
+        throw err instanceof CancelledError ? err : new CancelledError();
+      }
+      const error = toLLMError(err);
+      if (!error.retryable || attempt >= resolved.maxRetries) {
+        throw error;
+      }
+      const delayMs = computeRetryDelay(resolved, attempt + 1, error);
+      if (resolved.onRetry) {
+        resolved.onRetry(error, attempt + 1, delayMs);
+      }
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+// src/LLMs/SSEParser.ts
+
+/**
+ * A single Server-Sent Event. Multiple `data:` lines are joined with "\n".
+ */
+export interface SSEEvent {
+  event?: string;
+  id?: string;
+  data: string;
+}
+
+/**
+ * Incremental Server-Sent Events parser.
+ * Network chunks can split anywhere (mid-line, mid-JSON, between "\r" and "\n"),
+ * so text is buffered until a full line is available, and events are only
+ * emitted once their terminating blank line has arrived.
+ */
+export class SSEParser {
+  private buffer = "";
+  private dataLines: string[] = [];
+  private eventName?: string;
+  private eventId?: string;
+
+  /**
+   * Feeds a decoded text chunk and returns every event completed by it.
+   */
+  public feed(chunk: string): SSEEvent[] {
+    let text = this.buffer + chunk;
+
+    // A trailing "\r" may be the first half of "\r\n", so hold it back
+    const holdCR = text.endsWith("\r");
+    if (holdCR) {
+      text = text.slice(0, -1);
+    }
+
+    const lines = text.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop()! + (holdCR ? "\r" : "");
+
+    const events: SSEEvent[] = [];
+    for (const line of lines) {
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  /**
+   * Flushes whatever is left once the stream has ended.
+   * A final event without a terminating blank line is still emitted.
+   */
+  public flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    const rest = this.buffer.replace(/\r$/, "");
+    this.buffer = "";
+    if (rest) {
+      const event = this.processLine(rest);
+      if (event) events.push(event);
+    }
+    const last = this.dispatch();
+    if (last) events.push(last);
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    if (line === "") {
+      return this.dispatch();
+    }
+    if (line.startsWith(":")) {
+      return null; // comment / keep-alive
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "data":
+        this.dataLines.push(value);
+        break;
+      case "event":
+        this.eventName = value;
+        break;
+      case "id":
+        this.eventId = value;
+        break;
+      default:
+        // "retry" and unknown fields are ignored
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEEvent | null {
+    if (this.dataLines.length === 0) {
+      this.eventName = undefined;
+      return null;
+    }
+    const event: SSEEvent = {
+      data: this.dataLines.join("\n"),
+      ...(this.eventName !== undefined ? { event: this.eventName } : {}),
+      ...(this.eventId !== undefined ? { id: this.eventId } : {}),
+    };
+    this.dataLines = [];
+    this.eventName = undefined;
+    return event;
+  }
+}
+
+/**
+ * Reads a fetch() response body as a sequence of SSE events.
+ */
+export async function* readSSEStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      // stream: true keeps multi-byte characters split across chunks intact
+      for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+        yield event;
+      }
+    }
+    for (const event of parser.feed(decoder.decode())) {
+      yield event;
+    }
+    for (const event of parser.flush()) {
+      yield event;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
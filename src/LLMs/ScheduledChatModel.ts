@@ -0,0 +1,116 @@
+// src/LLMs/ScheduledChatModel.ts
+
+import {
+  ChatModel,
+  ChatMessage,
+  ChatResponse,
+  ChatCallOptions,
+  ChatStreamOptions,
+  StreamDelta,
+  ToolSchema,
+} from "./ChatModel";
+import { TokenEstimator, HeuristicTokenEstimator } from "./TokenEstimator";
+import { RequestScheduler, RequestPriority } from "./RequestScheduler";
+
+/**
+ * Options for ScheduledChatModel.
+ * - priority: lane for this model's calls (default "default"); attach the same model twice
+ *   with different priorities to separate interactive traffic from batch runs
+ * - estimator: estimates prompt tokens for the scheduler's tokensPerMinute budget
+ *   (the completion is counted as `sampling.maxTokens` when set)
+ */
+export interface ScheduledChatModelOptions {
+  priority?: RequestPriority;
+  estimator?: TokenEstimator;
+}
+
+/**
+ * Routes every call of a ChatModel through a shared RequestScheduler, so it waits for a slot
+ * under the scheduler's concurrency and per-minute limits. Token budgets are charged with an
+ * estimate when the call starts and corrected with the reported usage when it completes.
+ *
+ * A stream holds its slot until it completes or is abandoned.
+ * `callWithTools` and `stream` are only available if the wrapped model provides them.
+ */
+export class ScheduledChatModel implements ChatModel {
+  private model: ChatModel;
+  private scheduler: RequestScheduler;
+  private priority: RequestPriority;
+  private estimator: TokenEstimator;
+
+  public callWithTools?: (
+    messages: ChatMessage[],
+    tools: ToolSchema[],
+    options?: ChatCallOptions
+  ) => Promise<ChatResponse>;
+
+  public stream?: (messages: ChatMessage[], options?: ChatStreamOptions) => AsyncIterable<StreamDelta>;
+
+  constructor(model: ChatModel, scheduler: RequestScheduler, options: ScheduledChatModelOptions = {}) {
+    this.model = model;
+    this.scheduler = scheduler;
+    this.priority = options.priority ?? "default";
+    this.estimator = options.estimator ?? new HeuristicTokenEstimator();
+
+    if (model.callWithTools) {
+      this.callWithTools = (messages, tools, callOptions) =>
+        this.run(messages, tools, callOptions, (scheduledOptions) =>
+          this.model.callWithTools!(messages, tools, scheduledOptions)
+        );
+    }
+    if (model.stream) {
+      this.stream = (messages, streamOptions) => this.scheduledStream(messages, streamOptions);
+    }
+  }
+
+  public describe(): Record<string, any> {
+    return this.model.describe?.() ?? { model: this.model.constructor.name };
+  }
+
+  public call(messages: ChatMessage[], options?: ChatCallOptions): Promise<string> {
+    return this.run(messages, [], options, (scheduledOptions) => this.model.call(messages, scheduledOptions));
+  }
+
+  private run<T>(
+    messages: ChatMessage[],
+    tools: ToolSchema[],
+    options: ChatCallOptions | undefined,
+    invoke: (options: ChatCallOptions) => Promise<T>
+  ): Promise<T> {
+    return this.scheduler.schedule(
+      (reportTokens) =>
+        invoke({
+          ...options,
+          onUsage: (usage) => {
+            reportTokens(usage.totalTokens);
+            options?.onUsage?.(usage);
+          },
+        }),
+      { priority: this.priority, tokens: this.estimate(messages, tools, options), signal: options?.signal }
+    );
+  }
+
+  private async *scheduledStream(messages: ChatMessage[], options?: ChatStreamOptions): AsyncGenerator<StreamDelta> {
+    const permit = await this.scheduler.acquire({
+      priority: this.priority,
+      tokens: this.estimate(messages, options?.tools ?? [], options),
+      signal: options?.signal,
+    });
+
+    let actualTokens: number | undefined;
+    try {
+      for await (const delta of this.model.stream!(messages, options)) {
+        if (delta.type === "usage") actualTokens = delta.usage.totalTokens;
+        yield delta;
+      }
+    } finally {
+      permit.release(actualTokens);
+    }
+  }
+
+  private estimate(messages: ChatMessage[], tools: ToolSchema[], options?: ChatCallOptions): number {
+    return (
+      this.estimator.countMessages(messages) + this.estimator.countTools(tools) + (options?.sampling?.maxTokens ?? 0)
+    );
+  }
+}
@@ -0,0 +1,121 @@
+// src/LLMs/StructuredOutput.ts
+
+import { ChatModel, ChatMessage, ChatCallOptions } from "./ChatModel";
+import { validateJsonSchema } from "../utils/JsonSchema";
+
+/**
+ * Options for callStructured: the per-call options plus
+ * - name: schema name sent to providers with native structured output (default "response")
+ * - strict: ask the provider to enforce the schema exactly; OpenAI then requires every
+ *   property to be listed in `required` and `additionalProperties: false` (default false)
+ * - maxRepairAttempts: how often an invalid reply is sent back with the validation errors
+ *   before giving up (default 2)
+ */
+export interface StructuredCallOptions extends ChatCallOptions {
+  name?: string;
+  strict?: boolean;
+  maxRepairAttempts?: number;
+}
+
+/**
+ * Thrown by callStructured when the model's output still fails to parse or validate
+ * after all repair attempts.
+ */
+export class StructuredOutputError extends Error {
+  public errors: string[];
+  public output: string;
+  public attempts: number;
+
+  constructor(errors: string[], output: string, attempts: number) {
+    super(`Model output did not match the schema after ${attempts} attempt(s): ${errors.join("; ")}`);
+    this.name = "StructuredOutputError";
+    this.errors = errors;
+    this.output = output;
+    this.attempts = attempts;
+    Object.setPrototypeOf(this, StructuredOutputError.prototype);
+  }
+}
+
+/**
+ * Extracts a JSON value from model output, tolerating markdown code fences and
+ * prose around the JSON. Throws a SyntaxError if no JSON can be found.
+ */
+export function parseJsonOutput(text: string): any {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    const start = candidate.search(/[{[]/);
+    const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"));
+    if (start === -1 || end <= start) {
+      throw error;
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+/**
+ * Calls a model and returns its reply parsed as JSON and validated against `schema`.
+ *
+ * The schema is sent as `responseFormat`, so providers with native structured output
+ * (OpenAI's json_schema response format) constrain generation; it is also described in
+ * the prompt for models without it. Invalid replies are sent back to the model together
+ * with the validation errors up to `maxRepairAttempts` times before a StructuredOutputError
+ * is thrown. Model errors (including cancellation) propagate unchanged.
+ */
+export async function callStructured<T = any>(
+  model: ChatModel,
+  messages: ChatMessage[],
+  schema: Record<string, any>,
+  options: StructuredCallOptions = {}
+): Promise<T> {
+  const { name = "response", strict = false, maxRepairAttempts = 2, ...callOptions } = options;
+
+  const conversation: ChatMessage[] = [
+    ...messages,
+    {
+      role: "system",
+      content:
+        "Respond ONLY with a JSON value (no markdown, no commentary) that matches this JSON Schema:\n" +
+        JSON.stringify(schema),
+    },
+  ];
+
+  let output = "";
+  let errors: string[] = [];
+  const maxAttempts = 1 + Math.max(0, maxRepairAttempts);
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    output = await model.call(conversation, {
+      ...callOptions,
+      responseFormat: { name, schema, strict },
+    });
+
+    let parsed: any;
+    try {
+      parsed = parseJsonOutput(output);
+      errors = validateJsonSchema(parsed, schema);
+    } catch (error) {
+      errors = [`Output is not valid JSON: ${(error as Error).message}`];
+    }
+
+    if (errors.length === 0) {
+      return parsed as T;
+    }
+
+    conversation.push(
+      { role: "assistant", content: output },
+      {
+        role: "user",
+        content:
+          "Your previous reply did not match the required JSON Schema:\n" +
+          errors.map((e) => `- ${e}`).join("\n") +
+          "\nReply again with only the corrected JSON.",
+      }
+    );
+  }
+
+  throw new StructuredOutputError(errors, output, maxAttempts);
+}
@@ -0,0 +1,122 @@
+// src/LLMs/TokenEstimator.ts
+
+import { ChatMessage, ToolSchema } from "./ChatModel";
+import { ContentPart } from "./ContentParts";
+
+/**
+ * Estimates token counts without a tokenizer. Estimates are deliberately a little high,
+ * so prompts built against a budget stay below the model's real limit.
+ */
+export interface TokenEstimator {
+  countText(text: string): number;
+  countMessages(messages: ChatMessage[]): number;
+  countTools(tools: ToolSchema[]): number;
+}
+
+/**
+ * Average characters per token of English text for a tokenizer family.
+ * Matched like the price table: exact model name first, then the longest prefix.
+ */
+export const CHARS_PER_TOKEN: Record<string, number> = {
+  "gpt-4o": 4,
+  "gpt-4.1": 4,
+  "o1": 4,
+  "o3": 4,
+  "gpt-4": 3.8,
+  "gpt-3.5": 3.8,
+  "claude": 3.5,
+};
+
+/**
+ * Context window sizes (input + output tokens) of well-known models,
+ * matched by exact name first, then the longest prefix.
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-4o": 128000,
+  "gpt-4o-mini": 128000,
+  "gpt-4.1": 1047576,
+  "gpt-4-turbo": 128000,
+  "gpt-4": 8192,
+  "gpt-3.5-turbo": 16385,
+  "o1": 200000,
+  "o1-mini": 128000,
+  "o3-mini": 200000,
+  "claude": 200000,
+};
+
+/** Per-message overhead of the chat format (role, separators). */
+const MESSAGE_OVERHEAD = 4;
+
+function lookup<T>(model: string, table: Record<string, T>): T | undefined {
+  if (table[model] !== undefined) return table[model];
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Returns the context window of a model, or undefined if it is not known.
+ */
+export function findContextWindow(model: string): number | undefined {
+  return lookup(model, MODEL_CONTEXT_WINDOWS);
+}
+
+/**
+ * A character-based estimator: ASCII text at `charsPerToken`, other characters
+ * (CJK, emoji, ...) at one token each, plus fixed costs for images and files.
+ */
+export class HeuristicTokenEstimator implements TokenEstimator {
+  private charsPerToken: number;
+
+  constructor(charsPerToken: number = 4) {
+    this.charsPerToken = charsPerToken;
+  }
+
+  public countText(text: string): number {
+    let ascii = 0;
+    let other = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) < 128) ascii++;
+      else other++;
+    }
+    return Math.ceil(ascii / this.charsPerToken) + other;
+  }
+
+  public countMessages(messages: ChatMessage[]): number {
+    return messages.reduce((sum, m) => {
+      const content = m.parts && m.parts.length > 0 ? this.countParts(m.parts) : this.countText(m.content);
+      const toolCalls = (m.toolCalls ?? []).reduce(
+        (calls, c) => calls + this.countText(c.name) + this.countText(c.arguments) + MESSAGE_OVERHEAD,
+        0
+      );
+      return sum + MESSAGE_OVERHEAD + content + toolCalls;
+    }, 0);
+  }
+
+  public countTools(tools: ToolSchema[]): number {
+    return tools.reduce((sum, t) => sum + this.countText(JSON.stringify(t)), 0);
+  }
+
+  private countParts(parts: ContentPart[]): number {
+    return parts.reduce((sum, part) => {
+      switch (part.type) {
+        case "text":
+          return sum + this.countText(part.text);
+        case "image":
+          // OpenAI bills a low-detail image at 85 tokens, a typical high-detail one at ~765
+          return sum + (part.detail === "low" ? 85 : 765);
+        case "file":
+          // Inline files: roughly one token per 4 bytes of decoded content
+          return sum + (part.data ? Math.ceil((part.data.length * 0.75) / 4) : 1000);
+      }
+    }, 0);
+  }
+}
+
+/**
+ * Returns an estimator tuned to the model's tokenizer family (4 characters per token if unknown).
+ */
+export function estimatorForModel(model?: string): TokenEstimator {
+  return new HeuristicTokenEstimator((model && lookup(model, CHARS_PER_TOKEN)) || 4);
+}
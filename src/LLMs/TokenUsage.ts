@@ -0,0 +1,46 @@
+// src/LLMs/TokenUsage.ts
+
+/**
+ * Token counts reported by the provider for one or more model calls.
+ * `model` is set on per-call usage (the model that served the call) and used for pricing;
+ * it is dropped when usages are aggregated.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  model?: string;
+}
+
+/**
+ * A zeroed TokenUsage, used as the starting point for aggregation.
+ */
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+/**
+ * Returns a new TokenUsage with the sum of both.
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+/**
+ * Reads an OpenAI-style `usage` block ({ prompt_tokens, completion_tokens, total_tokens }).
+ */
+export function usageFromOpenAI(usage: any, model?: string): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+    ...(model ? { model } : {}),
+  };
+}
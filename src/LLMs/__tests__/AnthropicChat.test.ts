@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AnthropicChat } from "../AnthropicChat";
+import { LLMError } from "../LLMError";
+import { TokenUsage } from "../TokenUsage";
+import { startStubServer, withoutErrorLogs } from "./StubServer";
+
+const REPLY = {
+  model: "claude-stub-20250101",
+  content: [
+    { type: "text", text: "Hello " },
+    { type: "tool_use", id: "t1", name: "x", input: {} },
+    { type: "text", text: "there " },
+  ],
+  usage: { input_tokens: 12, output_tokens: 5 },
+};
+
+test("hoists system messages, merges same-role turns and starts with a user turn", async () => {
+  const server = await startStubServer(() => ({ body: REPLY }));
+  try {
+    const model = new AnthropicChat({ apiKey: "key", baseUrl: server.url, apiVersion: "2099-01-01" });
+    const usage: TokenUsage[] = [];
+    const output = await model.call(
+      [
+        { role: "system", content: "Be brief." },
+        { role: "assistant", content: "Earlier answer." },
+        { role: "system", content: "Use English." },
+        { role: "user", content: "First." },
+        { role: "reflection", content: "Second." },
+      ],
+      { onUsage: (u) => usage.push(u) }
+    );
+
+    assert.equal(output, "Hello there");
+    const [request] = server.requests;
+    assert.equal(request.path, "/v1/messages");
+    assert.equal(request.headers["x-api-key"], "key");
+    assert.equal(request.headers["anthropic-version"], "2099-01-01");
+    assert.equal(request.body.system, "Be brief.\n\nUse English.");
+    assert.deepEqual(request.body.messages, [
+      { role: "user", content: "(continue)" },
+      { role: "assistant", content: "Earlier answer." },
+      { role: "user", content: "First.\n\nSecond." },
+    ]);
+    assert.deepEqual(usage, [
+      { promptTokens: 12, completionTokens: 5, totalTokens: 17, model: "claude-stub-20250101" },
+    ]);
+  } finally {
+    await server.close();
+  }
+});
+
+test("maps content parts to content blocks", async () => {
+  const server = await startStubServer(() => ({ body: REPLY }));
+  try {
+    const model = new AnthropicChat({ apiKey: "key", baseUrl: server.url });
+    await model.call([
+      { role: "user", content: "Intro." },
+      {
+        role: "user",
+        content: "",
+        parts: [
+          { type: "text", text: "Describe these." },
+          { type: "image", url: "data:image/jpeg;base64,AAAA" },
+          { type: "image", url: "https://example.com/cat.png" },
+          { type: "file", data: "BBBB", mimeType: "application/pdf" },
+        ],
+      },
+    ]);
+
+    assert.deepEqual(server.requests[0].body.messages, [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Intro." },
+          { type: "text", text: "Describe these." },
+          { type: "image", source: { type: "base64", media_type: "image/jpeg", data: "AAAA" } },
+          { type: "image", source: { type: "url", url: "https://example.com/cat.png" } },
+          { type: "document", source: { type: "base64", media_type: "application/pdf", data: "BBBB" } },
+        ],
+      },
+    ]);
+  } finally {
+    await server.close();
+  }
+});
+
+test("retries 429 and 5xx responses, then gives up on a 400", async () => {
+  const statuses = [429, 529, 200];
+  const server = await startStubServer((i) =>
+    statuses[i] === 200
+      ? { body: REPLY }
+      : { status: statuses[i], body: { error: { type: "overloaded_error", message: "try again" } } }
+  );
+  try {
+    const model = new AnthropicChat({
+      apiKey: "key",
+      baseUrl: server.url,
+      retry: { maxRetries: 3, initialDelayMs: 1, jitter: false },
+    });
+    assert.equal(await model.call([{ role: "user", content: "hi" }]), "Hello there");
+    assert.equal(server.requests.length, 3);
+  } finally {
+    await server.close();
+  }
+
+  const failing = await startStubServer(() => ({ status: 400, body: { error: { message: "bad request" } } }));
+  try {
+    const model = new AnthropicChat({ apiKey: "key", baseUrl: failing.url, retry: { initialDelayMs: 1 } });
+    await withoutErrorLogs(() =>
+      assert.rejects(
+        model.call([{ role: "user", content: "hi" }]),
+        (error) => error instanceof LLMError && error.status === 400
+      )
+    );
+    assert.equal(failing.requests.length, 1);
+  } finally {
+    await failing.close();
+  }
+});
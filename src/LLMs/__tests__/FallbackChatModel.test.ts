@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FallbackChatModel } from "../FallbackChatModel";
+import { ChatModel, ChatCallOptions } from "../ChatModel";
+
+function streamingModel(name: string, tokens: string[], failAfter?: number): ChatModel {
+  return {
+    describe: () => ({ model: name }),
+    async call(_messages, options?: ChatCallOptions) {
+      tokens.forEach((token, i) => {
+        if (failAfter !== undefined && i >= failAfter) throw new Error(`${name} failed`);
+        options?.onToken?.(token);
+      });
+      if (failAfter !== undefined) throw new Error(`${name} failed`);
+      return tokens.join("");
+    },
+  };
+}
+
+test("falls back when the primary fails before streaming any token", async () => {
+  const received: string[] = [];
+  const model = new FallbackChatModel({
+    models: [streamingModel("primary", ["a", "b"], 0), streamingModel("backup", ["x", "y"])],
+  });
+  const answer = await model.call([{ role: "user", content: "hi" }], { onToken: (t) => received.push(t) });
+  assert.equal(answer, "xy");
+  assert.deepEqual(received, ["x", "y"]);
+});
+
+test("does not fall back once tokens have been streamed to the caller", async () => {
+  const received: string[] = [];
+  let backupCalled = false;
+  const backup = streamingModel("backup", ["x", "y"]);
+  const model = new FallbackChatModel({
+    models: [
+      streamingModel("primary", ["a", "b", "c"], 2),
+      { ...backup, call: (m, o) => ((backupCalled = true), backup.call(m, o)) },
+    ],
+  });
+  await assert.rejects(
+    model.call([{ role: "user", content: "hi" }], { onToken: (t) => received.push(t) }),
+    /primary failed/
+  );
+  assert.deepEqual(received, ["a", "b"]);
+  assert.equal(backupCalled, false);
+});
+
+test("still falls back mid-answer when the caller does not stream", async () => {
+  const model = new FallbackChatModel({
+    models: [streamingModel("primary", ["a", "b", "c"], 2), streamingModel("backup", ["x", "y"])],
+  });
+  assert.equal(await model.call([{ role: "user", content: "hi" }]), "xy");
+});
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { OllamaChat } from "../OllamaChat";
+import { TokenUsage } from "../TokenUsage";
+import { startStubServer, withoutErrorLogs } from "./StubServer";
+
+const REPLY = {
+  model: "llama-stub",
+  choices: [{ index: 0, message: { role: "assistant", content: " Hi! " } }],
+  usage: { prompt_tokens: 9, completion_tokens: 3, total_tokens: 12 },
+};
+
+test("sends OpenAI-style messages and reports usage", async () => {
+  const server = await startStubServer(() => ({ body: REPLY }));
+  try {
+    const model = new OllamaChat({ model: "llama3.1", baseUrl: `${server.url}/`, apiKey: "local-key" });
+    const usage: TokenUsage[] = [];
+    const output = await model.call(
+      [
+        { role: "system", content: "Be brief." },
+        { role: "reflection", content: "Think first." },
+        {
+          role: "user",
+          content: "",
+          parts: [
+            { type: "text", text: "What is this?" },
+            { type: "image", data: "AAAA", mimeType: "image/png" },
+          ],
+        },
+      ],
+      { onUsage: (u) => usage.push(u), sampling: { temperature: 0, maxTokens: 50 } }
+    );
+
+    assert.equal(output, "Hi!");
+    const [request] = server.requests;
+    assert.equal(request.path, "/v1/chat/completions");
+    assert.equal(request.headers.authorization, "Bearer local-key");
+    assert.equal(request.body.model, "llama3.1");
+    assert.equal(request.body.temperature, 0);
+    assert.equal(request.body.max_tokens, 50);
+    assert.equal(request.body.stream, false);
+    assert.deepEqual(request.body.messages, [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Think first." },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is this?" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+        ],
+      },
+    ]);
+    assert.equal(usage.length, 1);
+    assert.equal(usage[0].promptTokens, 9);
+    assert.equal(usage[0].completionTokens, 3);
+    assert.equal(usage[0].model, "llama-stub");
+  } finally {
+    await server.close();
+  }
+});
+
+test("retries 429 and 5xx responses, and gives up after maxRetries", async () => {
+  const statuses = [503, 429, 200];
+  const server = await startStubServer((i) =>
+    statuses[i] === 200 ? { body: REPLY } : { status: statuses[i], body: { error: { message: "busy" } } }
+  );
+  try {
+    const model = new OllamaChat({
+      model: "llama3.1",
+      baseUrl: server.url,
+      retry: { initialDelayMs: 1, jitter: false },
+    });
+    assert.equal(await model.call([{ role: "user", content: "hi" }]), "Hi!");
+    assert.equal(server.requests.length, 3);
+  } finally {
+    await server.close();
+  }
+
+  const down = await startStubServer(() => ({ status: 500, body: { error: { message: "model not loaded" } } }));
+  try {
+    const model = new OllamaChat({ model: "llama3.1", baseUrl: down.url, retry: { maxRetries: 1, initialDelayMs: 1 } });
+    await withoutErrorLogs(() => assert.rejects(model.call([{ role: "user", content: "hi" }]), /model not loaded/));
+    assert.equal(down.requests.length, 2);
+  } finally {
+    await down.close();
+  }
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { OpenAIChat } from "../OpenAIChat";
+
+/**
+ * A fetch stub for the streaming path: rejects json_schema response formats with a 400
+ * (like many OpenAI-compatible servers) and otherwise streams "ok".
+ */
+function stubFetch(bodies: any[]): typeof fetch {
+  return (async (_url: any, init: any) => {
+    const body = JSON.parse(init.body);
+    bodies.push(body);
+    if (body.response_format?.type === "json_schema") {
+      return new Response(JSON.stringify({ error: { message: "response_format json_schema is not supported" } }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const sse = 'data: {"choices":[{"index":0,"delta":{"content":"ok"}}]}\n\ndata: [DONE]\n\n';
+    return new Response(sse, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+  }) as typeof fetch;
+}
+
+const FORMAT = { name: "answer", schema: { type: "object" } };
+
+test("falls back to json_object for the call when the server rejects json_schema", async () => {
+  const bodies: any[] = [];
+  const model = new OpenAIChat({ baseUrl: "http://compat.local/v1", fetch: stubFetch(bodies), retry: { maxRetries: 0 } });
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    assert.equal(await model.call([{ role: "user", content: "hi" }], { responseFormat: FORMAT, onToken: () => {} }), "ok");
+    assert.equal(await model.call([{ role: "user", content: "hi" }], { responseFormat: FORMAT, onToken: () => {} }), "ok");
+  } finally {
+    console.warn = warn;
+  }
+  assert.deepEqual(
+    bodies.map((b) => b.response_format?.type),
+    ["json_schema", "json_object", "json_schema", "json_object"]
+  );
+});
+
+test("rethrows a 400 that does not name the response format, without changing the mode", async () => {
+  const bodies: any[] = [];
+  const badRequest = (async (_url: any, init: any) => {
+    bodies.push(JSON.parse(init.body));
+    return new Response(
+      JSON.stringify({ error: { message: "Invalid value for max_tokens", param: "max_tokens", code: "invalid_value" } }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }) as typeof fetch;
+  const model = new OpenAIChat({ baseUrl: "http://compat.local/v1", fetch: badRequest, retry: { maxRetries: 0 } });
+
+  for (let i = 0; i < 2; i++) {
+    await assert.rejects(
+      model.call([{ role: "user", content: "hi" }], { responseFormat: FORMAT, onToken: () => {} }),
+      /max_tokens/
+    );
+  }
+  assert.deepEqual(
+    bodies.map((b) => b.response_format?.type),
+    ["json_schema", "json_schema"]
+  );
+});
+
+test("only asks for stream usage on the OpenAI API unless configured", async () => {
+  const bodies: any[] = [];
+  await new OpenAIChat({ baseUrl: "http://compat.local/v1", fetch: stubFetch(bodies) }).call([{ role: "user", content: "hi" }], { onToken: () => {} });
+  await new OpenAIChat({ baseUrl: "http://compat.local/v1", fetch: stubFetch(bodies), streamUsage: true }).call([{ role: "user", content: "hi" }], { onToken: () => {} });
+  assert.equal(bodies[0].stream_options, undefined);
+  assert.deepEqual(bodies[1].stream_options, { include_usage: true });
+});
@@ -0,0 +1,157 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { RequestScheduler, SchedulerPermit } from "../RequestScheduler";
+import { ScheduledChatModel } from "../ScheduledChatModel";
+import { ChatModel } from "../ChatModel";
+import { CancelledError } from "../../utils/Cancellation";
+
+/** Lets settled promises run their callbacks, without relying on (possibly faked) timers. */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+/**
+ * Fakes setTimeout and Date.now from 0 for the test; `tick` advances both.
+ */
+function fakeClock(t: TestContext): { tick: (ms: number) => void } {
+  let now = 0;
+  const realNow = Date.now;
+  Date.now = () => now;
+  t.after(() => {
+    Date.now = realNow;
+  });
+  t.mock.timers.enable(["setTimeout"]);
+  return {
+    tick: (ms) => {
+      now += ms;
+      t.mock.timers.tick(ms);
+    },
+  };
+}
+
+test("starts queued requests by lane, first in first out within a lane", async () => {
+  const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+  const first = await scheduler.acquire();
+  const started: string[] = [];
+  const permits: SchedulerPermit[] = [];
+  for (const [label, priority] of [
+    ["background", "background"],
+    ["default-1", "default"],
+    ["interactive", "interactive"],
+    ["default-2", "default"],
+  ] as const) {
+    scheduler.acquire({ priority }).then((permit) => {
+      started.push(label);
+      permits.push(permit);
+    });
+  }
+  assert.deepEqual(scheduler.getStats().queued, { interactive: 1, default: 2, background: 1 });
+
+  first.release();
+  for (let i = 0; i < 4; i++) {
+    await flush();
+    permits[i].release();
+  }
+  await flush();
+  assert.deepEqual(started, ["interactive", "default-1", "default-2", "background"]);
+  assert.equal(scheduler.getStats().running, 0);
+});
+
+test("waits for the oldest request to leave the minute window under requestsPerMinute", async (t) => {
+  const clock = fakeClock(t);
+  const scheduler = new RequestScheduler({ requestsPerMinute: 2 });
+  (await scheduler.acquire()).release();
+  clock.tick(10000);
+  (await scheduler.acquire()).release();
+
+  let started = false;
+  scheduler.acquire().then(() => (started = true));
+  await flush();
+  assert.equal(started, false);
+  assert.equal(scheduler.getStats().requestsLastMinute, 2);
+
+  clock.tick(49999);
+  await flush();
+  assert.equal(started, false);
+
+  clock.tick(1);
+  await flush();
+  assert.equal(started, true);
+  assert.equal(scheduler.getStats().requestsLastMinute, 2);
+});
+
+test("charges estimated tokens and corrects them to the actual usage on release", async (t) => {
+  const clock = fakeClock(t);
+  const scheduler = new RequestScheduler({ tokensPerMinute: 1000 });
+  const first = await scheduler.acquire({ tokens: 800 });
+
+  let started = false;
+  scheduler.acquire({ tokens: 500 }).then(() => (started = true));
+  await flush();
+  assert.equal(started, false);
+  assert.equal(scheduler.getStats().tokensLastMinute, 800);
+
+  first.release(300);
+  await flush();
+  assert.equal(started, true);
+  assert.equal(scheduler.getStats().tokensLastMinute, 800);
+});
+
+test("starts a request above the token budget once the window is empty", async (t) => {
+  const clock = fakeClock(t);
+  const scheduler = new RequestScheduler({ tokensPerMinute: 100 });
+  (await scheduler.acquire({ tokens: 50 })).release();
+
+  let started = false;
+  scheduler.acquire({ tokens: 5000 }).then(() => (started = true));
+  await flush();
+  assert.equal(started, false);
+
+  clock.tick(60000);
+  await flush();
+  assert.equal(started, true);
+});
+
+test("removes a queued request when its signal aborts", async () => {
+  const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+  const first = await scheduler.acquire();
+  const controller = new AbortController();
+  const aborted = scheduler.acquire({ signal: controller.signal });
+  let nextStarted = false;
+  scheduler.acquire().then(() => (nextStarted = true));
+
+  controller.abort();
+  await assert.rejects(aborted, CancelledError);
+  assert.equal(scheduler.getStats().queued.default, 1);
+
+  first.release();
+  await flush();
+  assert.equal(nextStarted, true);
+  await assert.rejects(scheduler.acquire({ signal: controller.signal }), CancelledError);
+});
+
+test("ScheduledChatModel charges the estimate and reports the model's usage to the scheduler", async () => {
+  const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+  let tokensWhileRunning = -1;
+  const model: ChatModel = {
+    async call(_messages, options) {
+      tokensWhileRunning = scheduler.getStats().tokensLastMinute;
+      options?.onUsage?.({ promptTokens: 30, completionTokens: 12, totalTokens: 42, model: "stub" });
+      return "ok";
+    },
+  };
+  const usage: number[] = [];
+  const scheduled = new ScheduledChatModel(model, scheduler, {
+    estimator: { countText: () => 0, countMessages: () => 100, countTools: () => 0 },
+  });
+
+  const output = await scheduled.call([{ role: "user", content: "hi" }], {
+    sampling: { maxTokens: 20 },
+    onUsage: (u) => usage.push(u.totalTokens),
+  });
+  assert.equal(output, "ok");
+  assert.equal(tokensWhileRunning, 120);
+  assert.deepEqual(usage, [42]);
+  assert.equal(scheduler.getStats().tokensLastMinute, 42);
+  assert.equal(scheduler.getStats().running, 0);
+});
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeRetryDelay, withRetry, DEFAULT_RETRY_POLICY, RetryPolicy } from "../RetryPolicy";
+import { LLMError, RateLimitError, AuthError } from "../LLMError";
+
+const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+test("computeRetryDelay grows exponentially up to maxDelayMs", () => {
+  const error = new LLMError("server error", { status: 500, retryable: true });
+  assert.equal(computeRetryDelay(policy, 1, error), 100);
+  assert.equal(computeRetryDelay(policy, 2, error), 200);
+  assert.equal(computeRetryDelay(policy, 3, error), 400);
+  assert.equal(computeRetryDelay(policy, 10, error), 1000);
+});
+
+test("computeRetryDelay jitters within the backoff", () => {
+  const error = new LLMError("server error", { status: 500, retryable: true });
+  for (let i = 0; i < 20; i++) {
+    const delay = computeRetryDelay({ ...policy, jitter: true }, 3, error);
+    assert.ok(delay >= 0 && delay <= 400);
+  }
+});
+
+test("computeRetryDelay honors Retry-After, capped at maxDelayMs", () => {
+  assert.equal(computeRetryDelay(policy, 1, new RateLimitError("slow down", { retryAfterMs: 750 })), 750);
+  assert.equal(computeRetryDelay(policy, 1, new RateLimitError("slow down", { retryAfterMs: 3600000 })), 1000);
+});
+
+test("withRetry retries retryable errors and gives up on others", async () => {
+  let attempts = 0;
+  const result = await withRetry(
+    async () => {
+      attempts++;
+      if (attempts < 3) throw new LLMError("flaky", { status: 503, retryable: true });
+      return "ok";
+    },
+    { ...policy, initialDelayMs: 1 }
+  );
+  assert.equal(result, "ok");
+  assert.equal(attempts, 3);
+
+  attempts = 0;
+  await assert.rejects(
+    withRetry(async () => {
+      attempts++;
+      throw new AuthError("bad key", { status: 401 });
+    }, policy),
+    AuthError
+  );
+  assert.equal(attempts, 1);
+});
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SSEParser, SSEEvent } from "../SSEParser";
+
+const STREAM =
+  'data: {"choices":[{"delta":{"content":"Hel"}}]}\r\n\r\n' +
+  ": keep-alive\n\n" +
+  "event: update\nid: 7\ndata: line one\ndata: line two\n\n" +
+  "data: [DONE]\n\n";
+
+const EXPECTED: SSEEvent[] = [
+  { data: '{"choices":[{"delta":{"content":"Hel"}}]}' },
+  { event: "update", id: "7", data: "line one\nline two" },
+  // The last event id carries over to later events, as in the SSE spec
+  { id: "7", data: "[DONE]" },
+];
+
+function parseInChunks(chunks: string[]): SSEEvent[] {
+  const parser = new SSEParser();
+  const events = chunks.flatMap((chunk) => parser.feed(chunk));
+  return [...events, ...parser.flush()];
+}
+
+test("parses a stream delivered in one chunk", () => {
+  assert.deepEqual(parseInChunks([STREAM]), EXPECTED);
+});
+
+test("parses the same events whatever the chunk boundaries", () => {
+  for (let size = 1; size <= 7; size++) {
+    const chunks: string[] = [];
+    for (let i = 0; i < STREAM.length; i += size) chunks.push(STREAM.slice(i, i + size));
+    assert.deepEqual(parseInChunks(chunks), EXPECTED, `chunk size ${size}`);
+  }
+});
+
+test("does not treat a chunk split between \\r and \\n as two line breaks", () => {
+  const parser = new SSEParser();
+  assert.deepEqual(parser.feed("data: a\r"), []);
+  assert.deepEqual(parser.feed("\ndata: b\r"), []);
+  assert.deepEqual(parser.feed("\n\r\n"), [{ data: "a\nb" }]);
+  assert.deepEqual(parser.flush(), []);
+});
+
+test("flush emits a final event without its terminating blank line", () => {
+  const parser = new SSEParser();
+  assert.deepEqual(parser.feed("data: tail"), []);
+  assert.deepEqual(parser.flush(), [{ data: "tail" }]);
+});
@@ -0,0 +1,51 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+
+export interface StubReply {
+  status?: number;
+  body: any;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A local HTTP server that records each JSON request and answers with `reply(index)`,
+ * for testing the adapters against the wire format.
+ */
+export async function startStubServer(reply: (index: number) => StubReply): Promise<{
+  url: string;
+  requests: Array<{ path: string; headers: http.IncomingHttpHeaders; body: any }>;
+  close: () => Promise<void>;
+}> {
+  const requests: Array<{ path: string; headers: http.IncomingHttpHeaders; body: any }> = [];
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      requests.push({ path: req.url ?? "", headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+      const { status = 200, body, headers = {} } = reply(requests.length - 1);
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Runs `body` with console.error silenced (the adapters log failed calls).
+ */
+export async function withoutErrorLogs<T>(body: () => Promise<T>): Promise<T> {
+  const error = console.error;
+  console.error = () => {};
+  try {
+    return await body();
+  } finally {
+    console.error = error;
+  }
+}
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HeuristicTokenEstimator, estimatorForModel, findContextWindow } from "../TokenEstimator";
+
+test("counts ASCII by characters per token and other characters one each", () => {
+  const estimator = new HeuristicTokenEstimator(4);
+  assert.equal(estimator.countText(""), 0);
+  assert.equal(estimator.countText("abcdefgh"), 2);
+  assert.equal(estimator.countText("abcde"), 2);
+  assert.equal(estimator.countText("日本語"), 3);
+  assert.equal(estimator.countText("abcd日本"), 3);
+});
+
+test("adds message overhead, tool calls and fixed costs for images and files", () => {
+  const estimator = new HeuristicTokenEstimator(4);
+  assert.equal(estimator.countMessages([{ role: "user", content: "abcdefgh" }]), 4 + 2);
+  assert.equal(
+    estimator.countMessages([
+      { role: "assistant", content: "", toolCalls: [{ id: "1", name: "Search", arguments: '{"q":"x"}' }] },
+    ]),
+    4 + (2 + 3 + 4)
+  );
+  assert.equal(
+    estimator.countMessages([
+      {
+        role: "user",
+        content: "ignored when parts are set",
+        parts: [
+          { type: "text", text: "abcd" },
+          { type: "image", url: "https://example.com/a.png", detail: "low" },
+          { type: "image", url: "https://example.com/b.png" },
+          { type: "file", data: "A".repeat(160) },
+        ],
+      },
+    ]),
+    4 + 1 + 85 + 765 + 30
+  );
+});
+
+test("picks the tokenizer family and context window by exact name, then longest prefix", () => {
+  assert.equal(estimatorForModel("claude-3-5-haiku-latest").countText("a".repeat(7)), 2);
+  assert.equal(estimatorForModel("unknown-model").countText("a".repeat(8)), 2);
+  assert.equal(estimatorForModel().countText("a".repeat(8)), 2);
+
+  assert.equal(findContextWindow("gpt-4o-mini"), 128000);
+  assert.equal(findContextWindow("gpt-4-0613"), 8192);
+  assert.equal(findContextWindow("gpt-4-turbo-2024-04-09"), 128000);
+  assert.equal(findContextWindow("o1-mini-2024-09-12"), 128000);
+  assert.equal(findContextWindow("mistral-large"), undefined);
+});
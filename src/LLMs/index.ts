@@ -1,2 +1,24 @@
+export * from './ChatModel';
+export * from './ContentParts';
+export * from './LLMError';
+export * from './RetryPolicy';
+export * from './TokenUsage';
+export * from './TokenEstimator';
+export * from './Pricing';
+export * from './SSEParser';
+export * from './StructuredOutput';
+export * from './Embeddings';
+export * from './EmbeddingCache';
+export * from './LLMCache';
 export * from './OpenAIChat';
-export * from './OpenAIEmbeddings';
\ No newline at end of file
+export * from './OpenAIEndpoint';
+export * from './OpenAIEmbeddings';
+export * from './LocalEmbeddings';
+export * from './AnthropicChat';
+export * from './OllamaChat';
+export * from './CachingChatModel';
+export * from './MiddlewareChatModel';
+export * from './RequestScheduler';
+export * from './ScheduledChatModel';
+export * from './FallbackChatModel';
+export * from './CachingEmbeddings';
\ No newline at end of file
@@ -2,17 +2,19 @@
 
 import { Tool } from "./tools/Tools";
 import { Memory } from "./memory/Memory";
-import { OpenAIChat } from "./LLMs/OpenAIChat";
+import { ChatModel, ChatCallOptions } from "./LLMs/ChatModel";
 
 /**
  * The interface for a Planner that can produce a plan string or structured plan
  * from a user query, the known tools, and conversation memory.
+ * `options` should be forwarded to any model call so usage is attributed to the agent's run.
  */
 export interface Planner {
   generatePlan(
     userQuery: string,
     tools: Tool[],
-    memory: Memory
+    memory: Memory,
+    options?: ChatCallOptions
   ): Promise<string>;
 }
 
@@ -20,13 +22,18 @@ export interface Planner {
  * A naive LLM-based planner that just has some prompt instructions for plan generation.
  */
 export class SimpleLLMPlanner implements Planner {
-    private plannerModel: OpenAIChat;
+    private plannerModel: ChatModel;
   
-    constructor(plannerModel: OpenAIChat) {
+    constructor(plannerModel: ChatModel) {
       this.plannerModel = plannerModel;
     }
 
-    public async generatePlan(userQuery: string, tools: Tool[], memory: Memory): Promise<string> {
+    public async generatePlan(
+      userQuery: string,
+      tools: Tool[],
+      memory: Memory,
+      options?: ChatCallOptions
+    ): Promise<string> {
         const context = await memory.getContext();
         const toolDescriptions = tools.map((t) => `${t.name}: ${t.description}`).join("\n");
       
@@ -44,7 +51,7 @@ export class SimpleLLMPlanner implements Planner {
           },
         ];
       
-        return await this.plannerModel.call(planPrompt);
+        return await this.plannerModel.call(planPrompt, options);
     }
   }
   
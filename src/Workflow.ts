@@ -1,15 +1,34 @@
 // src/Workflow.ts
 
-import { OpenAIChat } from "./LLMs/OpenAIChat";
+import { ChatModel, ChatCallOptions } from "./LLMs/ChatModel";
+import { TokenUsage, emptyUsage, addUsage } from "./LLMs/TokenUsage";
 import { Memory, ConversationMessage, MemoryRole } from "./memory/Memory";
+import { throwIfAborted } from "./utils/Cancellation";
 
 /**
  * A workflow step: calls the model or performs some transformation,
  * returning a single conversation message (role + content).
+ * Steps that call a model should forward `options` to it so usage is attributed to the workflow.
  */
 export interface WorkflowStep {
   name?: string;
-  run(messages: ConversationMessage[]): Promise<ConversationMessage>;
+  run(messages: ConversationMessage[], options?: ChatCallOptions): Promise<ConversationMessage>;
+}
+
+/**
+ * Optional hooks for observing a workflow run.
+ */
+export interface WorkflowHooks {
+  onUsage?: (stepName: string, usage: TokenUsage, workflowTotal: TokenUsage) => void;
+}
+
+/**
+ * Per-run options for the Workflow run methods.
+ * - signal: cancels the run; remaining steps are skipped, in-flight model calls are aborted,
+ *   and the run rejects with a CancelledError.
+ */
+export interface WorkflowRunOptions {
+  signal?: AbortSignal;
 }
 
 /**
@@ -18,24 +37,52 @@ export interface WorkflowStep {
 export class Workflow {
   private steps: WorkflowStep[];
   private memory: Memory;
+  private hooks: WorkflowHooks;
+  private usage: TokenUsage = emptyUsage();
 
-  constructor(steps: WorkflowStep[], memory: Memory) {
+  constructor(steps: WorkflowStep[], memory: Memory, hooks?: WorkflowHooks) {
     this.steps = steps;
     this.memory = memory;
+    this.hooks = hooks ?? {};
+  }
+
+  /**
+   * Token usage aggregated across all steps for the most recent run.
+   */
+  public getUsage(): TokenUsage {
+    return { ...this.usage };
+  }
+
+  // Call options handed to a step so its model calls are counted (and cancellable)
+  private stepOptions(step: WorkflowStep, index: number, signal?: AbortSignal): ChatCallOptions {
+    return {
+      signal,
+      onUsage: (usage) => {
+        this.usage = addUsage(this.usage, usage);
+        if (this.hooks.onUsage) {
+          this.hooks.onUsage(step.name ?? `step-${index}`, usage, { ...this.usage });
+        }
+      },
+    };
   }
 
   // Run steps sequentially
-  public async runSequential(input: string): Promise<string> {
+  public async runSequential(input: string, options?: WorkflowRunOptions): Promise<string> {
+    this.usage = emptyUsage();
+    throwIfAborted(options?.signal);
+
     // 1) Add user message
     await this.memory.addMessage({ role: "user", content: input });
 
     let finalOutput = "";
-    for (const step of this.steps) {
+    for (const [index, step] of this.steps.entries()) {
+      throwIfAborted(options?.signal);
+
       // 2) Gather context
       const context = await this.memory.getContext();
 
       // 3) Step returns a conversation message (role + content)
-      const stepResult = await step.run(context);
+      const stepResult = await step.run(context, this.stepOptions(step, index, options?.signal));
       await this.memory.addMessage(stepResult);
 
       finalOutput = stepResult.content;
@@ -44,13 +91,19 @@ export class Workflow {
   }
 
   // Run steps in parallel
-  public async runParallel(input: string): Promise<string[]> {
+  public async runParallel(input: string, options?: WorkflowRunOptions): Promise<string[]> {
+    this.usage = emptyUsage();
+    throwIfAborted(options?.signal);
+
     // 1) Add user message
     await this.memory.addMessage({ role: "user", content: input });
     const context = await this.memory.getContext();
 
     // 2) Run all steps concurrently
-    const results = await Promise.all(this.steps.map((step) => step.run(context)));
+    const results = await Promise.all(
+      this.steps.map((step, index) => step.run(context, this.stepOptions(step, index, options?.signal)))
+    );
+    throwIfAborted(options?.signal);
 
     // 3) Add each result to memory
     for (const result of results) {
@@ -62,13 +115,20 @@ export class Workflow {
   }
 
   // Run steps conditionally based on the output of the previous step
-  public async runConditional(input: string, conditionFn: (output: string) => boolean): Promise<string> {
+  public async runConditional(
+    input: string,
+    conditionFn: (output: string) => boolean,
+    options?: WorkflowRunOptions
+  ): Promise<string> {
+    this.usage = emptyUsage();
+    throwIfAborted(options?.signal);
     await this.memory.addMessage({ role: "user", content: input });
 
     let finalOutput = "";
-    for (const step of this.steps) {
+    for (const [index, step] of this.steps.entries()) {
+      throwIfAborted(options?.signal);
       const context = await this.memory.getContext();
-      const stepResult = await step.run(context);
+      const stepResult = await step.run(context, this.stepOptions(step, index, options?.signal));
       await this.memory.addMessage(stepResult);
 
       if (!conditionFn(stepResult.content)) {
@@ -86,22 +146,22 @@ export class Workflow {
  * Example step that just calls an LLM with the entire conversation as input.
  */
 export class LLMCallStep implements WorkflowStep {
-  private model: OpenAIChat;
+  private model: ChatModel;
   private systemPrompt: string;
 
-  constructor(model: OpenAIChat, systemPrompt?: string) {
+  constructor(model: ChatModel, systemPrompt?: string) {
     this.model = model;
     this.systemPrompt = systemPrompt ?? "You are a helpful assistant.";
   }
 
-  async run(messages: ConversationMessage[]): Promise<ConversationMessage> {
+  async run(messages: ConversationMessage[], options?: ChatCallOptions): Promise<ConversationMessage> {
     // We treat messages as the conversation so far
     const enhancedMessages: ConversationMessage[] = [
       { role: "system", content: this.systemPrompt },
       ...messages,
     ];
 
-    const response = await this.model.call(enhancedMessages);
+    const response = await this.model.call(enhancedMessages, options);
 
     // Return a conversation message
     return { role: "assistant", content: response };
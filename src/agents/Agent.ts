@@ -1,11 +1,30 @@
-import { OpenAIChat } from "../LLMs/OpenAIChat";
-import { Memory, MemoryRole } from "../memory/Memory";
+import { ChatModel, ChatCallOptions, ModelServedInfo, ToolSchema, ToolCall } from "../LLMs/ChatModel";
+import { callStructured, StructuredOutputError } from "../LLMs/StructuredOutput";
+import { ContentPart, contentPartsToText } from "../LLMs/ContentParts";
+import { estimatorForModel, findContextWindow } from "../LLMs/TokenEstimator";
+import { TokenUsage, emptyUsage, addUsage } from "../LLMs/TokenUsage";
+import { PriceTable, DEFAULT_PRICE_TABLE, CostBudget, computeCost, findModelPrice } from "../LLMs/Pricing";
+import { Memory, MemoryRole, snapshotMemory, restoreMemory } from "../memory/Memory";
 import { ReflectionMemory } from "../memory/ReflectionMemory";
 import { Tool } from "../tools/Tools";
 import { Planner } from "../Planner";
 import { ConversationMessage } from "../memory/Memory";
+import { ContextBuilder, ContextBuilderOptions, ContextBuildReport } from "../memory/ContextBuilder";
 import { ToolRequestParser, ParsedToolRequest } from "../tools/ToolRequest";
+import { toolToSchema } from "../tools/ToolSchema";
 import { DebugLogger } from "../utils/DebugLogger";
+import { isCancellation, raceWithSignal, throwIfAborted } from "../utils/Cancellation";
+import { mapWithConcurrency } from "../utils/Concurrency";
+import { RunResult, StopReason, TrajectoryRecorder, ValidationRecord } from "./RunResult";
+import { AgentCheckpoint, CheckpointStore, CheckpointNotFoundError, PendingToolCall } from "./Checkpoint";
+import { LoopDetector, LoopDetectionOptions, LoopDetection, LoopStrategy } from "./LoopDetector";
+import {
+  ApprovalTicket,
+  ApprovalDecision,
+  ApprovalPolicy,
+  requiresApproval,
+  applyApprovalDecision,
+} from "./Approvals";
 
 /**
  * Options to configure agent behavior and safety checks.
@@ -21,6 +40,86 @@ export interface AgentOptions {
    * If true, we will attempt to validate the final output with a validator LLM.
    */
   validateOutput?: boolean;
+
+  /**
+   * How often a final answer that fails validation is sent back to the model, with the
+   * validator's reason, for revision (default 2, -1 = unlimited). Once retries (or the run's
+   * LLM calls or budget) are used up, the last answer is returned as is.
+   */
+  maxValidationRetries?: number;
+
+  /**
+   * If true and the model supports native function calling (`callWithTools`),
+   * tools are sent as JSON schemas and results returned as "tool" messages.
+   * Otherwise the `TOOL REQUEST:` text protocol is used.
+   */
+  nativeToolCalling?: boolean;
+
+  /**
+   * How many tool calls of one turn run at once (default 4, -1 = unlimited, 1 = one after
+   * another). The model may request several tools in a turn, either as several native tool
+   * calls or as several `TOOL REQUEST:` lines; all results are returned before its next call.
+   */
+  maxParallelToolCalls?: number;
+
+  /**
+   * Dollar budget for a single run (-1 = unlimited). Checked between steps;
+   * the run stops with a cost-limit reason once spending reaches it.
+   */
+  maxCostUsd?: number;
+
+  /**
+   * Per-model prices used to compute cost, merged over DEFAULT_PRICE_TABLE.
+   */
+  priceTable?: PriceTable;
+
+  /**
+   * Fits every prompt into the model's context window, trimming the lowest-priority content
+   * first (see ContextBuilder). `maxTokens` defaults to the model's known context window
+   * (no trimming if it is unknown), and the estimator to one tuned to the model.
+   * Off by default (memory context is sent unchanged); pass `{}` to enable it with defaults.
+   */
+  contextBuilder?: Partial<ContextBuilderOptions> | false;
+
+  /**
+   * Saves a checkpoint of every run after each step, so an interrupted run can be
+   * continued with Agent.resume (e.g. with a FileCheckpointStore after a process restart).
+   */
+  checkpointStore?: CheckpointStore;
+
+  /**
+   * Detects repeated identical tool calls and near-identical intermediate outputs in the
+   * reasoning loop, and handles them with the configured strategy (see LoopDetectionOptions).
+   * Off by default; `{}` enables it with the defaults (injecting a corrective message).
+   */
+  loopDetection?: LoopDetectionOptions | false;
+
+  /**
+   * Tool calls that need a human decision, given by tool name or predicate. Instead of running
+   * such a call, the agent suspends the run (checkpointing it, so a checkpointStore is required),
+   * reports an ApprovalTicket through onApprovalRequested, and resolves with an
+   * "awaiting_approval" stopping reason. Resume it with Agent.resume once decided.
+   */
+  requireApproval?: ApprovalPolicy;
+}
+
+/**
+ * Per-run options for Agent.run.
+ * - costBudget: a budget shared with other participants of a larger run (e.g. an AgentTeam);
+ *   this agent adds its spend to it and stops once it is exhausted.
+ * - signal: cancels the run; the in-flight LLM request and tool are aborted and the run
+ *   resolves with a "cancelled" stopping reason.
+ * - attachments: images or files sent along with the query (e.g. an uploaded screenshot)
+ * - checkpointId: id to checkpoint the run under (requires a checkpointStore); a new id is
+ *   generated when omitted, see Agent.getCheckpointId
+ * - approvals: decisions for a suspended run's tickets, by ticket id (Agent.resume only)
+ */
+export interface AgentRunOptions {
+  costBudget?: CostBudget;
+  signal?: AbortSignal;
+  attachments?: ContentPart[];
+  checkpointId?: string;
+  approvals?: Record<string, ApprovalDecision>;
 }
 
 /**
@@ -33,6 +132,110 @@ export interface AgentHooks {
   onToolResult?: (toolName: string, result: string) => void;
   onFinalAnswer?: (answer: string) => void;
   onStep?: (messages: ConversationMessage[]) => void;
+
+  /**
+   * Called after every LLM call with that call's token usage and the running total for this run.
+   */
+  onUsage?: (usage: TokenUsage, runTotal: TokenUsage) => void;
+
+  /**
+   * Called when a composite model (e.g. FallbackChatModel) reports which model served a call.
+   */
+  onModelServed?: (info: ModelServedInfo) => void;
+
+  /**
+   * Called when a prompt had to be trimmed to fit the context window, with what was removed.
+   */
+  onContextTrimmed?: (report: ContextBuildReport) => void;
+
+  /**
+   * Called after each checkpoint has been saved.
+   */
+  onCheckpoint?: (checkpoint: AgentCheckpoint) => void;
+
+  /**
+   * Called when the reasoning loop starts repeating itself, with the strategy being applied.
+   */
+  onLoopDetected?: (loop: LoopDetection, strategy: LoopStrategy) => void;
+
+  /**
+   * Called after each validator verdict, with this run's validation history so far (including it).
+   */
+  onValidation?: (record: ValidationRecord, history: ValidationRecord[]) => void;
+
+  /**
+   * Called when a tool call needs a human decision, after the suspended run has been checkpointed.
+   */
+  onApprovalRequested?: (ticket: ApprovalTicket) => void;
+}
+
+/**
+ * Progress events of a run, as yielded by Agent.runStream. They mirror AgentHooks:
+ * - step_start: a reasoning step (LLM call) or plan step begins
+ * - llm_token: a text fragment of the main LLM call, as it streams in (models that can stream)
+ * - llm_output: the complete output of that call, with any native tool calls
+ * - plan_generated: the planner produced a plan
+ * - tool_call_requested / tool_approved / tool_denied: the model asked for a tool, and whether
+ *   the onToolCall hook (if any) let it run
+ * - tool_result: a tool's output, including tool errors
+ *   (tool events carry the `callId` of their call, as calls of one turn may run in parallel)
+ * - message: an intermediate assistant message that is neither a tool request nor the answer
+ * - validation: the validator's verdict on a candidate final answer
+ * - loop_detected: the run started repeating itself, and the strategy applied
+ * - approval_requested: a tool call is waiting for a human decision; the run suspends
+ * - final_answer: the answer the run resolves with
+ * - stopped: the run ended without an answer (limits, cancellation), with its StopReason and message
+ */
+export type AgentEvent =
+  | { type: "step_start"; step: number }
+  | { type: "llm_token"; token: string }
+  | { type: "llm_output"; content: string; toolCalls?: ToolCall[] }
+  | { type: "plan_generated"; plan: string }
+  | { type: "tool_call_requested"; toolName: string; query: string; args?: Record<string, any>; callId?: string }
+  | { type: "tool_approved"; toolName: string; callId?: string }
+  | { type: "tool_denied"; toolName: string; callId?: string }
+  | { type: "tool_result"; toolName: string; result: string; callId?: string }
+  | { type: "message"; content: string }
+  | { type: "validation"; answer: string; valid: boolean; reason: string }
+  | { type: "loop_detected"; loop: LoopDetection; strategy: LoopStrategy }
+  | { type: "approval_requested"; ticket: ApprovalTicket }
+  | { type: "final_answer"; answer: string }
+  | { type: "stopped"; reason: StopReason; message: string };
+
+/**
+ * JSON Schema for the validation model's verdict.
+ */
+const VALIDATION_SCHEMA = {
+  type: "object",
+  properties: {
+    is_valid: { type: "boolean" },
+    reason: { type: "string" },
+  },
+  required: ["is_valid", "reason"],
+  additionalProperties: false,
+};
+
+/**
+ * Marks the run's query in memory, so ContextBuilder keeps it even after corrective user messages.
+ */
+const QUERY_METADATA = { source: "query" };
+
+/**
+ * Thrown inside a run to unwind it when tool calls wait for approval.
+ */
+class RunSuspended extends Error {
+  constructor() {
+    super("Run suspended pending approval.");
+    this.name = "RunSuspended";
+    Object.setPrototypeOf(this, RunSuspended.prototype);
+  }
+}
+
+/**
+ * A text-protocol request as the model wrote it, to label its result.
+ */
+function formatToolQuery(request: ParsedToolRequest): string {
+  return request.args ? JSON.stringify(request.args) : `"${request.query}"`;
 }
 
 /**
@@ -40,7 +243,7 @@ export interface AgentHooks {
  */
 export class Agent {
   public name: string;
-  protected model: OpenAIChat;
+  protected model: ChatModel;
   protected memory: Memory;
   protected tools: Tool[];
   protected instructions: string[];
@@ -55,12 +258,44 @@ export class Agent {
   protected useReflection: boolean;
   protected timeToLive: number;
   protected validateOutput: boolean;
+  protected maxValidationRetries: number;
+  protected nativeToolCalling: boolean;
+  protected maxParallelToolCalls: number;
+  protected maxCostUsd: number;
+  protected priceTable: PriceTable;
+  protected contextBuilder?: ContextBuilder;
+  protected checkpointStore?: CheckpointStore;
+  protected loopDetection: LoopDetectionOptions | false;
+  protected requireApproval?: ApprovalPolicy;
   protected debug: boolean;
 
   // Internal counters/timers
   protected llmCallsUsed = 0;
   private startTime: number = 0;
   private stepCount: number = 0;
+  protected tokenUsage: TokenUsage = emptyUsage();
+  protected costUsd = 0;
+  private runBudget?: CostBudget;
+  private runSignal?: AbortSignal;
+  private warnedUnpricedModels = new Set<string>();
+  protected servedModels: ModelServedInfo[] = [];
+  private eventSink?: (event: AgentEvent) => void;
+  private trajectory = new TrajectoryRecorder();
+  private stopReason: StopReason = "no_answer";
+  private stopMessage = "";
+  private llmCallsAtStart = 0;
+  private loopDetector?: LoopDetector;
+  private validationHistory: ValidationRecord[] = [];
+  private validationRetries = 0;
+
+  // Checkpoint state of the current run
+  private checkpointId?: string;
+  private checkpointCreatedAt = 0;
+  private runQuery = "";
+  private runAttachments?: ContentPart[];
+  private planState?: { steps: Array<{ action: string; details: string }>; nextStep: number };
+  private pendingToolCalls: PendingToolCall[] = [];
+  private checkpointWrites: Promise<void> = Promise.resolve();
 
   // Hooks
   protected hooks: AgentHooks;
@@ -69,11 +304,11 @@ export class Agent {
   protected task?: string;
 
   // If validateOutput === true, we optionally have a separate validation model
-  protected validationModel?: OpenAIChat;
+  protected validationModel?: ChatModel;
 
   constructor(params: {
     name?: string;
-    model: OpenAIChat;
+    model: ChatModel;
     memory: Memory;
     tools?: Tool[];
     instructions?: string[];
@@ -83,7 +318,7 @@ export class Agent {
     hooks?: AgentHooks;
 
     task?: string;
-    validationModel?: OpenAIChat;
+    validationModel?: ChatModel;
   }) {
     const {
       name,
@@ -117,6 +352,36 @@ export class Agent {
     this.debug = options?.debug ?? false;
     this.logger = new DebugLogger(this.debug);
     this.validateOutput = options?.validateOutput ?? false;
+    this.maxValidationRetries = options?.maxValidationRetries ?? 2;
+    this.maxCostUsd = options?.maxCostUsd ?? -1;
+    this.priceTable = { ...DEFAULT_PRICE_TABLE, ...(options?.priceTable ?? {}) };
+    this.checkpointStore = options?.checkpointStore;
+    this.maxParallelToolCalls = options?.maxParallelToolCalls ?? 4;
+    this.loopDetection = options?.loopDetection ?? false;
+    this.requireApproval = options?.requireApproval;
+    if (this.requireApproval && !this.checkpointStore) {
+      throw new Error(`Agent "${this.name}": requireApproval needs a checkpointStore to suspend runs.`);
+    }
+
+    // Context window: opt-in, and trims prompts only when we know (or are told) the budget
+    if (options?.contextBuilder) {
+      const modelName = this.model.describe?.().model;
+      const maxTokens = options?.contextBuilder?.maxTokens ?? (modelName ? findContextWindow(modelName) : undefined);
+      if (maxTokens) {
+        this.contextBuilder = new ContextBuilder({
+          estimator: estimatorForModel(modelName),
+          ...options?.contextBuilder,
+          maxTokens,
+        });
+      }
+    }
+
+    // Native tool calling falls back to the text protocol if the model can't do it
+    this.nativeToolCalling = options?.nativeToolCalling ?? false;
+    if (this.nativeToolCalling && !this.model.callWithTools) {
+      this.logger.warn(`[Agent] Model does not support native tool calling, falling back to text tool requests.`);
+      this.nativeToolCalling = false;
+    }
 
     // Reflection toggling
     if (tools.length > 0) {
@@ -134,7 +399,7 @@ export class Agent {
    */
   public static create(params: {
     name?: string;
-    model: OpenAIChat;
+    model: ChatModel;
     memory: Memory;
     tools?: Tool[];
     instructions?: string[];
@@ -142,7 +407,7 @@ export class Agent {
     options?: AgentOptions;
     hooks?: AgentHooks;
     task?: string;
-    validationModel?: OpenAIChat;
+    validationModel?: ChatModel;
   }): Agent {
     return new Agent(params);
   }
@@ -150,30 +415,274 @@ export class Agent {
   /**
    * The main entry point for the agent.
    */
-  public async run(query: string): Promise<string> {
+  public async run(query: string, runOptions?: AgentRunOptions): Promise<string> {
+    this.beginRun(query, runOptions);
+    this.checkpointId =
+      runOptions?.checkpointId ??
+      (this.checkpointStore ? `${this.name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` : undefined);
+    this.checkpointCreatedAt = this.startTime;
+
+    this.logger.log(`[Agent:${this.name}] Starting run`, { query, checkpointId: this.checkpointId });
+
+    return this.execute(() => this.runInternal(query, runOptions?.attachments));
+  }
+
+  /**
+   * Continues a checkpointed run where it left off: memory, counters, elapsed time, usage,
+   * cost and loop-detection counts are restored, tool calls that had been requested but not completed are executed, and
+   * the run continues with its plan or reasoning loop. A finished run resolves with its output
+   * without calling the model. `runOptions` apply to the resumed run (its checkpointId is ignored);
+   * a suspended run needs `runOptions.approvals` for its tickets, and suspends again until every
+   * ticket of the step has a decision (decisions given so far are kept).
+   *
+   * @throws CheckpointNotFoundError if the store has no checkpoint with this id
+   * @throws Error if an approval edits the query of a call with structured args to a non-object
+   */
+  public async resume(checkpointId: string, runOptions?: AgentRunOptions): Promise<string> {
+    if (!this.checkpointStore) {
+      throw new Error(`Agent "${this.name}" has no checkpointStore to resume from.`);
+    }
+    const checkpoint = await this.checkpointStore.load(checkpointId);
+    if (!checkpoint) {
+      throw new CheckpointNotFoundError(checkpointId);
+    }
+    if (checkpoint.status === "finished") {
+      return checkpoint.output ?? "";
+    }
+
+    this.beginRun(checkpoint.query, { ...runOptions, attachments: checkpoint.attachments });
+    this.checkpointId = checkpoint.id;
+    this.checkpointCreatedAt = checkpoint.createdAt;
+    await restoreMemory(this.memory, checkpoint.memory);
+    this.startTime = Date.now() - checkpoint.elapsedMs;
+    this.stepCount = checkpoint.stepCount;
+    this.llmCallsUsed = checkpoint.llmCallsUsed;
+    this.llmCallsAtStart = checkpoint.llmCallsUsed - (checkpoint.runLlmCalls ?? 0);
+    this.tokenUsage = checkpoint.tokenUsage;
+    this.costUsd = checkpoint.costUsd;
+    this.planState = checkpoint.plan;
+    if (checkpoint.loopDetector) {
+      this.loopDetector?.restore(checkpoint.loopDetector);
+    }
+    this.pendingToolCalls = checkpoint.pendingToolCalls ?? [];
+    for (const call of this.pendingToolCalls) {
+      const decision = call.approval && runOptions?.approvals?.[call.approval.ticket.id];
+      if (decision && !call.approval!.decision) {
+        if (decision.approved) {
+          applyApprovalDecision(call.request, decision); // rejects edits the call cannot take
+        }
+        call.approval!.decision = decision;
+      }
+    }
+
+    this.logger.log(`[Agent:${this.name}] Resuming run`, {
+      checkpointId,
+      step: this.stepCount,
+      pendingToolCalls: this.pendingToolCalls.length,
+    });
+
+    return this.execute(() => this.continueRun(checkpoint.query));
+  }
+
+  /**
+   * Id of the most recent (or current) run's checkpoint, if a checkpointStore is configured.
+   */
+  public getCheckpointId(): string | undefined {
+    return this.checkpointId;
+  }
+
+  /**
+   * Tickets the most recent (or current) run is waiting for, if it is suspended.
+   */
+  public getPendingApprovals(): ApprovalTicket[] {
+    return this.pendingToolCalls
+      .filter((call) => call.approval && !call.approval.decision)
+      .map((call) => ({ ...call.approval!.ticket }));
+  }
+
+  /**
+   * Resets per-run state.
+   */
+  private beginRun(query: string, runOptions?: AgentRunOptions): void {
     this.startTime = Date.now();
     this.stepCount = 0;
+    this.tokenUsage = emptyUsage();
+    this.costUsd = 0;
+    this.servedModels = [];
+    this.trajectory = new TrajectoryRecorder();
+    this.stopReason = "no_answer";
+    this.stopMessage = "";
+    this.llmCallsAtStart = this.llmCallsUsed;
+    this.runBudget = runOptions?.costBudget;
+    this.runSignal = runOptions?.signal;
+    this.runQuery = query;
+    this.runAttachments = runOptions?.attachments;
+    this.planState = undefined;
+    this.pendingToolCalls = [];
+    this.loopDetector = this.loopDetection ? new LoopDetector(this.loopDetection) : undefined;
+    this.validationHistory = [];
+    this.validationRetries = 0;
+  }
+
+  /**
+   * Runs `body` as the run, turning cancellation into a "cancelled" stopping reason and a
+   * suspension into "awaiting_approval". A run that ends (with an answer or a limit) is
+   * checkpointed as finished; a cancelled or failed run keeps its last checkpoint, so it can
+   * be resumed.
+   */
+  private async execute(body: () => Promise<string>): Promise<string> {
+    let output: string;
+    try {
+      output = await body();
+    } catch (err) {
+      if (err instanceof RunSuspended) {
+        const tools = this.getPendingApprovals().map((t) => t.toolName);
+        return this.stop({
+          reason: "awaiting_approval",
+          message: `Run suspended: waiting for approval of ${tools.join(", ")} (checkpoint "${this.checkpointId}").`,
+        });
+      }
+      if (isCancellation(err)) {
+        this.logger.log(`[Agent:${this.name}] Run cancelled`);
+        return this.stop(this.getStoppingReason(Date.now() - this.startTime));
+      }
+      throw err;
+    }
+    if (this.stopReason !== "cancelled") {
+      await this.saveCheckpoint("finished", output);
+    }
+    return output;
+  }
+
+  /**
+   * Runs the agent like `run`, but resolves with a RunResult: the answer (if any), why the
+   * run stopped, the step-by-step trajectory, usage, cost, timings and validation verdicts.
+   */
+  public async runDetailed(query: string, runOptions?: AgentRunOptions): Promise<RunResult> {
+    const output = await this.run(query, runOptions);
+    const finishedAt = Date.now();
+    const { steps, validations } = this.trajectory.snapshot(finishedAt);
+
+    return {
+      ...(this.stopReason === "final_answer" ? { answer: output } : {}),
+      output,
+      stopReason: this.stopReason,
+      stopMessage: this.stopMessage,
+      steps,
+      validations,
+      usage: this.getUsage(),
+      costUsd: this.costUsd,
+      llmCalls: this.llmCallsUsed - this.llmCallsAtStart,
+      servedModels: this.getServedModels(),
+      ...(this.stopReason === "awaiting_approval" ? { pendingApprovals: this.getPendingApprovals() } : {}),
+      startedAt: this.startTime,
+      finishedAt,
+      durationMs: finishedAt - this.startTime,
+    };
+  }
+
+  /**
+   * Runs the agent like `run`, yielding AgentEvents as the run progresses; the generator
+   * returns the same string `run` resolves with. Hooks still fire as usual.
+   * Stopping iteration early (e.g. `break`) cancels the run.
+   */
+  public async *runStream(query: string, runOptions?: AgentRunOptions): AsyncGenerator<AgentEvent, string> {
+    const controller = new AbortController();
+    const onParentAbort = () => controller.abort();
+    runOptions?.signal?.addEventListener("abort", onParentAbort, { once: true });
+    if (runOptions?.signal?.aborted) controller.abort();
+
+    const queue: AgentEvent[] = [];
+    let wake: (() => void) | undefined;
+    let done = false;
+    let result = "";
+    let failure: { error: unknown } | undefined;
+
+    this.eventSink = (event) => {
+      queue.push(event);
+      wake?.();
+    };
+    this.run(query, { ...runOptions, signal: controller.signal })
+      .then(
+        (answer) => {
+          result = answer;
+        },
+        (error) => {
+          failure = { error };
+        }
+      )
+      .finally(() => {
+        done = true;
+        wake?.();
+      });
 
-    this.logger.log(`[Agent:${this.name}] Starting run`, { query });
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          yield queue.shift()!;
+          continue;
+        }
+        if (done) break;
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = undefined;
+      }
+    } finally {
+      runOptions?.signal?.removeEventListener("abort", onParentAbort);
+      if (!done) controller.abort();
+      this.eventSink = undefined;
+    }
+
+    if (failure) throw failure.error;
+    return result;
+  }
+
+  /**
+   * The body of a run: conversation setup, then single-pass, planner or reflection loop.
+   */
+  private async runInternal(query: string, attachments?: ContentPart[]): Promise<string> {
+    throwIfAborted(this.runSignal);
 
     // Initialize conversation
     await this.memory.addMessage({
       role: "system",
       content: this.buildSystemPrompt(),
     });
-    await this.memory.addMessage({ role: "user", content: query });
+    if (attachments && attachments.length > 0) {
+      const parts: ContentPart[] = [{ type: "text", text: query }, ...attachments];
+      await this.memory.addMessage({
+        role: "user",
+        content: contentPartsToText(parts),
+        parts,
+        metadata: QUERY_METADATA,
+      });
+    } else {
+      await this.memory.addMessage({ role: "user", content: query, metadata: QUERY_METADATA });
+    }
+    await this.saveCheckpoint();
+
+    return this.continueRun(query);
+  }
 
-    // Single-pass if reflection is off
+  /**
+   * Single-pass if reflection is off, otherwise the planner flow or the reflection loop.
+   */
+  private async continueRun(query: string): Promise<string> {
     if (!this.useReflection) {
       return await this.singlePass();
     }
-
-    // If planner is specified
     if (this.planner) {
       return await this.executePlannerFlow(query);
     }
+    return await this.reflectionLoop(query);
+  }
+
+  /**
+   * The default reasoning loop: call the model, run the tools it asks for, repeat until it
+   * gives a final answer or a limit is reached. Checkpointed before each step and after each tool.
+   */
+  private async reflectionLoop(query: string): Promise<string> {
+    await this.runPendingToolCalls();
 
-    // Default reflection loop
     while (true) {
       // Check usage/time
       const elapsed = Date.now() - this.startTime;
@@ -184,55 +693,460 @@ export class Agent {
         maxSteps: this.maxSteps,
         elapsedMs: elapsed,
         timeToLive: this.timeToLive,
+        promptTokens: this.tokenUsage.promptTokens,
+        completionTokens: this.tokenUsage.completionTokens,
+        costUsd: this.costUsd,
+        maxCostUsd: this.maxCostUsd,
       });
 
       if (this.shouldStop(elapsed)) {
-        return this.getStoppingReason(elapsed);
+        return this.stop(this.getStoppingReason(elapsed));
       }
 
       this.llmCallsUsed++;
       this.stepCount++;
+      this.emit({ type: "step_start", step: this.stepCount });
+
+      // Native function calling path
+      if (this.usesNativeTools()) {
+        const toolSchemas = this.tools.map(toolToSchema);
+        const context = await this.fitContext(await this.memory.getContextForPrompt(query), toolSchemas);
+        const response = await this.model.callWithTools!(context, toolSchemas, this.callOptions(true));
+        this.logger.log(`[Agent:${this.name}] LLM Output:`, response);
+        this.emit({ type: "llm_output", content: response.content, toolCalls: response.toolCalls });
+
+        if (response.toolCalls && response.toolCalls.length > 0) {
+          const requests = response.toolCalls.map((call) => ToolRequestParser.fromToolCall(call, this.tools));
+          const loop = this.loopDetector?.recordToolCalls(requests);
+          if (loop) {
+            const outcome = await this.handleLoop(loop, query);
+            if (outcome !== null) return outcome;
+            continue;
+          }
+
+          await this.memory.addMessage({
+            role: "assistant",
+            content: response.content,
+            toolCalls: response.toolCalls,
+          });
+          this.pendingToolCalls = response.toolCalls.map((call, i) => ({ request: requests[i], toolCallId: call.id }));
+          await this.saveCheckpoint();
+          await this.runPendingToolCalls();
+          continue; // Next iteration
+        }
+
+        const finalAns = await this.handleTextOutput(response.content);
+        if (finalAns !== null) return finalAns;
+        const outcome = await this.checkOutputLoop(response.content, query);
+        if (outcome !== null) return outcome;
+        await this.saveCheckpoint();
+        continue;
+      }
 
-      const context = await this.memory.getContextForPrompt(query);
-      const llmOutput = await this.model.call(context);
+      const context = await this.fitContext(await this.memory.getContextForPrompt(query));
+      const llmOutput = await this.model.call(context, this.callOptions(true));
       this.logger.log(`[Agent:${this.name}] LLM Output:`, { llmOutput });
+      this.emit({ type: "llm_output", content: llmOutput });
 
       // Tool usage?
-      const toolRequest = ToolRequestParser.parse(llmOutput);
-      if (toolRequest) {
-        const result = await this.handleToolRequest(toolRequest);
-        await this.memory.addMessage({ role: "assistant", content: `Tool result:\n${result}` });
+      const toolRequests = ToolRequestParser.parseAll(llmOutput);
+      if (toolRequests.length > 0) {
+        const loop = this.loopDetector?.recordToolCalls(toolRequests);
+        if (loop) {
+          const outcome = await this.handleLoop(loop, query);
+          if (outcome !== null) return outcome;
+          continue;
+        }
+
+        this.pendingToolCalls = toolRequests.map((request) => ({ request }));
+        await this.saveCheckpoint();
+        await this.runPendingToolCalls();
         continue; // Next iteration
       }
 
-      // Final answer check
-      if (llmOutput.startsWith("FINAL ANSWER:")) {
-        const finalAns = llmOutput.replace("FINAL ANSWER:", "").trim();
-        this.logger.log(`[Agent:${this.name}] Final answer found`, { finalAns });
-
-        // Add final answer to memory
-        await this.memory.addMessage({ role: "assistant", content: llmOutput });
-
-        // If validateOutput is true, attempt validation
-        if (this.validateOutput && this.validationModel) {
-          const validated = await this.validateFinalAnswer(finalAns);
-          if (!validated) {
-            this.logger.log(`[Agent:${this.name}] Validation failed. Continuing loop to refine...`);
-            // We can either continue the loop or forcibly revise the answer
-            // We'll continue the loop here:
-            continue;
+      const finalAns = await this.handleTextOutput(llmOutput);
+      if (finalAns !== null) return finalAns;
+      const outcome = await this.checkOutputLoop(llmOutput, query);
+      if (outcome !== null) return outcome;
+      await this.saveCheckpoint();
+    }
+  }
+
+  /**
+   * Checks an intermediate (non-final) output for repetition.
+   * Returns the run's result if the loop strategy ended the run, or null to keep looping.
+   */
+  private async checkOutputLoop(output: string, query: string): Promise<string | null> {
+    if (output.startsWith("FINAL ANSWER:")) {
+      return null;
+    }
+    const loop = this.loopDetector?.recordOutput(output);
+    return loop ? this.handleLoop(loop, query) : null;
+  }
+
+  /**
+   * Applies the loop strategy. The repeated tool calls are not run; returns the run's result
+   * if the strategy ended the run, or null to keep looping.
+   */
+  private async handleLoop(loop: LoopDetection, query: string): Promise<string | null> {
+    const strategy = this.loopDetector!.strategy;
+    this.logger.warn(`[Agent:${this.name}] Loop detected, applying "${strategy}"`, loop);
+    this.hooks.onLoopDetected?.(loop, strategy);
+    this.emit({ type: "loop_detected", loop, strategy });
+
+    switch (strategy) {
+      case "stop":
+        return this.stop({ reason: "loop_detected", message: `Stopped after detecting a loop: ${loop.description}` });
+      case "force_final_answer":
+        return this.forceFinalAnswer(loop, query);
+      default:
+        await this.memory.addMessage({
+          role: "user",
+          content: `${loop.description} Repeating it will not produce new information. Use the results you already have, try a different approach, or give your FINAL ANSWER.`,
+        });
+        return null;
+    }
+  }
+
+  /**
+   * One last LLM call, without tools, whose output is taken as the final answer (after
+   * validation, if enabled).
+   */
+  private async forceFinalAnswer(loop: LoopDetection, query: string): Promise<string> {
+    const elapsed = Date.now() - this.startTime;
+    if (this.shouldStop(elapsed)) {
+      return this.stop(this.getStoppingReason(elapsed));
+    }
+
+    await this.memory.addMessage({
+      role: "user",
+      content: `${loop.description} Stop using tools and give your FINAL ANSWER now, based on what you have found so far.`,
+    });
+
+    let finalAns: string;
+    while (true) {
+      this.llmCallsUsed++;
+      this.stepCount++;
+      this.emit({ type: "step_start", step: this.stepCount });
+      const context = await this.fitContext(await this.memory.getContextForPrompt(query));
+      const output = await this.model.call(context, this.callOptions(true));
+      this.emit({ type: "llm_output", content: output });
+      await this.memory.addMessage({ role: "assistant", content: output });
+      finalAns = output.replace("FINAL ANSWER:", "").trim();
+
+      // Validated like any other answer; revisions are asked for without tools as well
+      if (!this.validateOutput || !this.validationModel) break;
+      const validated = await this.validateFinalAnswer(finalAns);
+      if (validated || !(await this.requestRevision())) break;
+    }
+
+    if (this.hooks.onFinalAnswer) {
+      await this.hooks.onFinalAnswer(finalAns);
+    }
+    this.emit({ type: "final_answer", answer: finalAns });
+    return finalAns;
+  }
+
+  /**
+   * Runs the tool calls of the current step that have not run yet, up to maxParallelToolCalls
+   * at once (checkpointing as each completes), then stores the results in memory: one "tool"
+   * message per native call, or a single message with every text-protocol result.
+   * Calls that need approval get a ticket; if any is still undecided once the others have run,
+   * the run is suspended.
+   */
+  private async runPendingToolCalls(): Promise<void> {
+    const calls = this.pendingToolCalls;
+    if (calls.length === 0) {
+      return;
+    }
+
+    const requested: ApprovalTicket[] = [];
+    calls.forEach((call, i) => {
+      if (call.result === undefined && !call.approval && requiresApproval(this.requireApproval, call.request)) {
+        const ticket: ApprovalTicket = {
+          id: `${this.checkpointId}-${this.stepCount}-${i + 1}`,
+          checkpointId: this.checkpointId!,
+          agentName: this.name,
+          toolName: call.request.toolName,
+          query: call.request.query,
+          ...(call.request.args ? { args: call.request.args } : {}),
+          requestedAt: Date.now(),
+        };
+        call.approval = { ticket };
+        requested.push(ticket);
+      }
+    });
+
+    // Native calls are identified by their tool call id, text-protocol calls by step and position
+    const runnable = calls
+      .map((call, i) => ({ call, callId: call.toolCallId ?? `${this.stepCount}-${i + 1}` }))
+      .filter(({ call }) => call.result === undefined && (!call.approval || call.approval.decision));
+
+    await mapWithConcurrency(runnable, this.maxParallelToolCalls, async ({ call, callId }) => {
+      if (call.approval) {
+        // Results are labeled with the request as run, including the reviewer's edits
+        call.request = applyApprovalDecision(call.request, call.approval.decision!);
+      }
+      call.result = call.approval
+        ? await this.runReviewedToolCall(call.request, call.approval.decision!, callId)
+        : await this.handleToolRequest(call.request, false, callId);
+      await this.saveCheckpoint();
+    });
+
+    if (calls.some((call) => call.result === undefined)) {
+      await this.saveCheckpoint("suspended");
+      for (const ticket of requested) {
+        this.logger.log(`[Agent:${this.name}] Waiting for approval`, ticket);
+        this.hooks.onApprovalRequested?.(ticket);
+        this.emit({ type: "approval_requested", ticket });
+      }
+      throw new RunSuspended();
+    }
+
+    const textCalls = calls.filter((call) => call.toolCallId === undefined);
+    for (const call of calls) {
+      if (call.toolCallId !== undefined) {
+        await this.memory.addMessage({ role: "tool", content: call.result!, toolCallId: call.toolCallId });
+      }
+    }
+    if (textCalls.length === 1) {
+      await this.memory.addMessage({ role: "assistant", content: `Tool result:\n${textCalls[0].result}` });
+    } else if (textCalls.length > 1) {
+      const sections = textCalls.map(
+        (call, i) => `[${i + 1}] ${call.request.toolName} ${formatToolQuery(call.request)}:\n${call.result}`
+      );
+      await this.memory.addMessage({ role: "assistant", content: `Tool results:\n${sections.join("\n\n")}` });
+    }
+
+    this.pendingToolCalls = [];
+    await this.saveCheckpoint();
+  }
+
+  /**
+   * Runs a tool call a reviewer has decided on; the onToolCall hook is not asked again.
+   */
+  private async runReviewedToolCall(
+    request: ParsedToolRequest,
+    decision: ApprovalDecision,
+    callId?: string
+  ): Promise<string> {
+    if (!decision.approved) {
+      this.logger.log("Tool call denied by reviewer", { toolName: request.toolName, reason: decision.reason });
+      this.emit({
+        type: "tool_call_requested",
+        toolName: request.toolName,
+        query: request.query,
+        ...(request.args ? { args: request.args } : {}),
+        callId,
+      });
+      this.emit({ type: "tool_denied", toolName: request.toolName, callId });
+      return `Tool call to "${request.toolName}" was denied by a reviewer${decision.reason ? `: ${decision.reason}` : "."}`;
+    }
+    return this.handleToolRequest(request, true, callId);
+  }
+
+  /**
+   * Saves the run's current state to the checkpointStore (if any), with `output` once the
+   * run is finished. Saves are written one at a time, in order, since parallel tool calls
+   * checkpoint as they complete.
+   */
+  private saveCheckpoint(status: AgentCheckpoint["status"] = "running", output?: string): Promise<void> {
+    const write = this.checkpointWrites.then(() => this.writeCheckpoint(status, output));
+    this.checkpointWrites = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeCheckpoint(status: AgentCheckpoint["status"], output?: string): Promise<void> {
+    if (!this.checkpointStore || !this.checkpointId) {
+      return;
+    }
+    const now = Date.now();
+    const checkpoint: AgentCheckpoint = {
+      id: this.checkpointId,
+      agentName: this.name,
+      status,
+      createdAt: this.checkpointCreatedAt,
+      updatedAt: now,
+      query: this.runQuery,
+      ...(this.runAttachments ? { attachments: this.runAttachments } : {}),
+      memory: await snapshotMemory(this.memory),
+      stepCount: this.stepCount,
+      llmCallsUsed: this.llmCallsUsed,
+      runLlmCalls: this.llmCallsUsed - this.llmCallsAtStart,
+      elapsedMs: now - this.startTime,
+      tokenUsage: { ...this.tokenUsage },
+      costUsd: this.costUsd,
+      ...(this.planState ? { plan: { steps: this.planState.steps, nextStep: this.planState.nextStep } } : {}),
+      ...(this.pendingToolCalls.length > 0
+        ? {
+            pendingToolCalls: this.pendingToolCalls.map((call) => ({
+              ...call,
+              ...(call.approval ? { approval: { ...call.approval } } : {}),
+            })),
           }
-        }
+        : {}),
+      ...(this.loopDetector ? { loopDetector: this.loopDetector.snapshot() } : {}),
+      ...(output !== undefined ? { output } : {}),
+    };
+    await this.checkpointStore.save(checkpoint);
+    this.logger.log(`[Agent:${this.name}] Checkpoint saved`, { id: checkpoint.id, status: checkpoint.status });
+    this.hooks.onCheckpoint?.(checkpoint);
+  }
 
-        if (this.hooks.onFinalAnswer) {
-          await this.hooks.onFinalAnswer(finalAns);
+  /**
+   * Handles a plain-text LLM output in the reflection loop.
+   * Returns the final answer if one was found (and validated), or null to keep looping.
+   */
+  private async handleTextOutput(llmOutput: string): Promise<string | null> {
+    // Final answer check
+    if (llmOutput.startsWith("FINAL ANSWER:")) {
+      const finalAns = llmOutput.replace("FINAL ANSWER:", "").trim();
+      this.logger.log(`[Agent:${this.name}] Final answer found`, { finalAns });
+
+      // Add final answer to memory
+      await this.memory.addMessage({ role: "assistant", content: llmOutput });
+
+      // If validateOutput is true, attempt validation and send a rejected answer back for revision
+      if (this.validateOutput && this.validationModel) {
+        const validated = await this.validateFinalAnswer(finalAns);
+        if (!validated && (await this.requestRevision())) {
+          return null;
         }
-        return finalAns;
       }
 
-      // Otherwise, treat as intermediate output
-      await this.memory.addMessage({ role: "assistant", content: llmOutput });
+      if (this.hooks.onFinalAnswer) {
+        await this.hooks.onFinalAnswer(finalAns);
+      }
+      this.emit({ type: "final_answer", answer: finalAns });
+      return finalAns;
+    }
+
+    // Otherwise, treat as intermediate output
+    await this.memory.addMessage({ role: "assistant", content: llmOutput });
+    this.emit({ type: "message", content: llmOutput });
+    return null;
+  }
+
+  /**
+   * The chat model this agent calls, e.g. to share it with a router.
+   */
+  public getModel(): ChatModel {
+    return this.model;
+  }
+
+  /**
+   * Token usage aggregated over the most recent (or current) run.
+   */
+  public getUsage(): TokenUsage {
+    return { ...this.tokenUsage };
+  }
+
+  /**
+   * Per-call options passed to every model call, so usage is attributed to this run.
+   * `streamTokens` marks the agent's own reasoning calls, whose tokens are streamed as
+   * llm_token events during runStream.
+   */
+  protected callOptions(streamTokens: boolean = false): ChatCallOptions {
+    return {
+      onUsage: (usage) => this.recordUsage(usage),
+      onModelServed: (info) => this.recordServedModel(info),
+      signal: this.runSignal,
+      ...(streamTokens && this.eventSink ? { onToken: (token: string) => this.emit({ type: "llm_token", token }) } : {}),
+    };
+  }
+
+  /**
+   * Records an event in the run's trajectory and delivers it to the runStream consumer, if any.
+   */
+  protected emit(event: AgentEvent): void {
+    if (event.type === "final_answer") {
+      this.stopReason = "final_answer";
+      this.stopMessage = "Final answer produced.";
     }
+    this.trajectory.record(event);
+    this.eventSink?.(event);
+  }
+
+  /**
+   * Ends a run without an answer: reports the reason as a stopped event and returns its message.
+   */
+  private stop(stopping: { reason: StopReason; message: string }): string {
+    this.stopReason = stopping.reason;
+    this.stopMessage = stopping.message;
+    this.emit({ type: "stopped", reason: stopping.reason, message: stopping.message });
+    return stopping.message;
+  }
+
+  /**
+   * Fits memory context into the context window (if a ContextBuilder is configured),
+   * reporting any trimming through the onContextTrimmed hook.
+   */
+  protected async fitContext(
+    messages: ConversationMessage[],
+    tools: ToolSchema[] = []
+  ): Promise<ConversationMessage[]> {
+    if (!this.contextBuilder) {
+      return messages;
+    }
+    const report = await this.contextBuilder.build(messages, tools, this.callOptions());
+    if (report.trimmed.length > 0) {
+      this.logger.warn(`[Agent:${this.name}] Trimmed prompt to fit the context window`, {
+        estimatedTokens: report.estimatedTokens,
+        budget: report.budget,
+        trimmed: report.trimmed,
+      });
+      this.hooks.onContextTrimmed?.(report);
+    }
+    return report.messages;
+  }
+
+  /**
+   * Models that served this run's calls, in call order, as reported by composite models
+   * such as FallbackChatModel (plain models do not report).
+   */
+  public getServedModels(): ModelServedInfo[] {
+    return [...this.servedModels];
+  }
+
+  private recordServedModel(info: ModelServedInfo): void {
+    this.servedModels.push(info);
+    if (info.failed.length > 0) {
+      this.logger.warn(`[Agent:${this.name}] Served by ${info.model} after fallback`, { failed: info.failed });
+    }
+    this.hooks.onModelServed?.(info);
+  }
+
+  /**
+   * Dollar cost of the most recent (or current) run.
+   */
+  public getCost(): number {
+    return this.costUsd;
+  }
+
+  private recordUsage(usage: TokenUsage): void {
+    this.tokenUsage = addUsage(this.tokenUsage, usage);
+
+    const cost = computeCost(usage, this.priceTable);
+    this.costUsd += cost;
+    if (this.runBudget) {
+      this.runBudget.add(cost);
+    }
+    if (usage.model && !findModelPrice(usage.model, this.priceTable) && !this.warnedUnpricedModels.has(usage.model)) {
+      this.warnedUnpricedModels.add(usage.model);
+      this.logger.warn(`[Agent:${this.name}] No price configured for model "${usage.model}", counting its cost as $0.`);
+    }
+
+    this.logger.log(`[Agent:${this.name}] Token usage`, { call: usage, runTotal: this.tokenUsage });
+    if (this.hooks.onUsage) {
+      this.hooks.onUsage(usage, { ...this.tokenUsage });
+    }
+  }
+
+  /**
+   * Whether this run uses native function calling rather than the text protocol.
+   */
+  protected usesNativeTools(): boolean {
+    return this.nativeToolCalling && this.tools.length > 0 && !!this.model.callWithTools;
   }
 
   /**
@@ -240,24 +1154,32 @@ export class Agent {
    */
   protected async singlePass(): Promise<string> {
     if (this.llmCallsUsed >= this.usageLimit && this.usageLimit !== -1) {
-      return "Usage limit reached. No more LLM calls allowed.";
+      return this.stop({ reason: "usage_limit", message: "Usage limit reached. No more LLM calls allowed." });
+    }
+    if (this.isOverBudget()) {
+      return this.stop(this.getStoppingReason(Date.now() - this.startTime));
     }
-    this.llmCallsUsed++;
-    const singleResponse = await this.model.call(await this.memory.getContext());
-    await this.memory.addMessage({ role: "assistant", content: singleResponse });
 
-    // If final answer, optionally validate
-    if (this.validateOutput && this.validationModel) {
+    let singleResponse: string;
+    while (true) {
+      this.llmCallsUsed++;
+      this.stepCount++;
+      this.emit({ type: "step_start", step: this.stepCount });
+      const context = await this.fitContext(await this.memory.getContext());
+      singleResponse = await this.model.call(context, this.callOptions(true));
+      this.emit({ type: "llm_output", content: singleResponse });
+      await this.memory.addMessage({ role: "assistant", content: singleResponse });
+
+      // Optionally validate, asking for a revision while retries remain
+      if (!this.validateOutput || !this.validationModel) break;
       const validated = await this.validateFinalAnswer(singleResponse);
-      if (!validated) {
-        // If single-pass and fails validation, we just return it anyway, or we can override
-        this.logger.log(`[Agent:${this.name}] Single pass validation failed. Returning anyway.`);
-      }
+      if (validated || !(await this.requestRevision())) break;
     }
 
     if (this.hooks.onFinalAnswer) {
-      this.hooks.onFinalAnswer(singleResponse);
+      await this.hooks.onFinalAnswer(singleResponse);
     }
+    this.emit({ type: "final_answer", answer: singleResponse });
     return singleResponse;
   }
 
@@ -268,36 +1190,78 @@ export class Agent {
     if (!this.planner) {
       return "No planner specified.";
     }
-    const plan = await this.planner.generatePlan(query, this.tools, this.memory);
-    if (this.hooks.onPlanGenerated) {
-      this.hooks.onPlanGenerated(plan);
+    // A resumed run continues its checkpointed plan instead of planning again
+    if (!this.planState) {
+      const plan = await this.planner.generatePlan(query, this.tools, this.memory, this.callOptions());
+      if (this.hooks.onPlanGenerated) {
+        this.hooks.onPlanGenerated(plan);
+      }
+      this.emit({ type: "plan_generated", plan });
+      this.planState = { steps: this.parsePlan(plan), nextStep: 0 };
+      await this.saveCheckpoint();
     }
 
-    const steps = this.parsePlan(plan);
-    for (const step of steps) {
+    const planState = this.planState;
+    while (planState.nextStep < planState.steps.length) {
+      const step = planState.steps[planState.nextStep];
+      throwIfAborted(this.runSignal);
+      if (this.isOverBudget()) {
+        return this.stop(this.getStoppingReason(Date.now() - this.startTime));
+      }
+
+      // A tool step suspended for approval is continued, not started again
+      if (this.pendingToolCalls.length === 0) {
+        this.stepCount++;
+        this.emit({ type: "step_start", step: this.stepCount });
+      }
+
+      if (step.action === "tool") {
+        // Planned tool calls go through approval, the onToolCall hook and the tool events too
+        if (this.pendingToolCalls.length === 0) {
+          this.pendingToolCalls = [{ request: { toolName: step.details, query } }];
+        }
+        await this.runPendingToolCalls();
+        planState.nextStep++;
+        await this.saveCheckpoint();
+        continue;
+      }
+
       const stepResponse = await this.executePlanStep(step, query);
       await this.memory.addMessage({ role: "assistant", content: stepResponse });
 
       if (stepResponse.includes("FINAL ANSWER")) {
         // Extract the final answer string
-        const finalAnswer = stepResponse.replace("FINAL ANSWER:", "").trim();
-
-        // Validate if required
-        if (this.validateOutput && this.validationModel) {
-          const pass = await this.validateFinalAnswer(finalAnswer);
-          if (!pass) {
-            this.logger.log(
-              `[Agent:${this.name}] Validation failed in planner flow. Possibly continue or refine?`
-            );
-            // Could do more refinement or just return
-          }
+        let finalAnswer = stepResponse.replace("FINAL ANSWER:", "").trim();
+
+        // Validate if required; a rejected answer is revised by the model outside the plan
+        while (
+          this.validateOutput &&
+          this.validationModel &&
+          !(await this.validateFinalAnswer(finalAnswer)) &&
+          (await this.requestRevision())
+        ) {
+          this.llmCallsUsed++;
+          this.stepCount++;
+          this.emit({ type: "step_start", step: this.stepCount });
+          const context = await this.fitContext(await this.memory.getContextForPrompt(query));
+          const revision = await this.model.call(context, this.callOptions(true));
+          this.emit({ type: "llm_output", content: revision });
+          await this.memory.addMessage({ role: "assistant", content: revision });
+          finalAnswer = revision.replace("FINAL ANSWER:", "").trim();
         }
 
+        if (this.hooks.onFinalAnswer) {
+          await this.hooks.onFinalAnswer(finalAnswer);
+        }
+        this.emit({ type: "final_answer", answer: finalAnswer });
         return finalAnswer;
       }
+      this.emit({ type: "message", content: stepResponse });
+      planState.nextStep++;
+      await this.saveCheckpoint();
     }
 
-    return "Plan executed but no final answer was found.";
+    return this.stop({ reason: "no_answer", message: "Plan executed but no final answer was found." });
   }
 
   /**
@@ -311,9 +1275,16 @@ export class Agent {
     const lines: string[] = [];
     lines.push(`You are an intelligent AI agent named "${this.name}".`);
 
-    if (toolLines) {
+    if (toolLines && this.usesNativeTools()) {
       lines.push(
-        `You have access to these tools:\n${toolLines}\nUse them by responding with EXACT format:\nTOOL REQUEST: <ToolName> "<Query>"`
+        `You have access to these tools:\n${toolLines}\nCall them through the function-calling interface whenever you need them.`
+      );
+    } else if (toolLines) {
+      lines.push(
+        `You have access to these tools:\n${toolLines}\nUse them by responding with EXACT format:\nTOOL REQUEST: <ToolName> "<Query>"` +
+          (this.maxParallelToolCalls !== 1
+            ? `\nTo use several tools at once, respond with one TOOL REQUEST line per tool and nothing else.`
+            : "")
       );
     } else {
       lines.push(`You do not have any tools available.`);
@@ -340,15 +1311,11 @@ export class Agent {
     query: string
   ): Promise<string> {
     switch (step.action) {
-      case "tool": {
-        const tool = this.tools.find((t) => t.name === step.details);
-        if (!tool) {
-          return `Error: Tool "${step.details}" not found.`;
-        }
-        return await tool.run(query);
+      case "message": {
+        const output = await this.model.call([{ role: "user", content: step.details }], this.callOptions(true));
+        this.emit({ type: "llm_output", content: output });
+        return output;
       }
-      case "message":
-        return await this.model.call([{ role: "user", content: step.details }]);
       case "complete":
         return `FINAL ANSWER: ${step.details}`;
       default:
@@ -356,7 +1323,15 @@ export class Agent {
     }
   }
 
-  protected async handleToolRequest(request: ParsedToolRequest): Promise<string> {
+  /**
+   * Validates and runs a tool request, asking the onToolCall hook first unless `preApproved`.
+   * `callId` tags the tool events of this call.
+   */
+  protected async handleToolRequest(
+    request: ParsedToolRequest,
+    preApproved: boolean = false,
+    callId?: string
+  ): Promise<string> {
     this.logger.log("Processing tool request", request);
 
     try {
@@ -373,30 +1348,51 @@ export class Agent {
       }
 
       ToolRequestParser.validateParameters(tool, request);
+      this.emit({
+        type: "tool_call_requested",
+        toolName: tool.name,
+        query: request.query,
+        ...(request.args ? { args: request.args } : {}),
+        callId,
+      });
 
-      if (this.hooks.onToolCall) {
+      if (this.hooks.onToolCall && !preApproved) {
         const proceed = await this.hooks.onToolCall(tool.name, request.query);
         if (!proceed) {
           this.logger.log("Tool call cancelled by hook", { toolName: tool.name });
+          this.emit({ type: "tool_denied", toolName: tool.name, callId });
           return `Tool call to "${tool.name}" cancelled by user approval.`;
         }
       }
-
-      const result = request.args
-        ? await tool.run("", request.args)
-        : await tool.run(request.query);
+      this.emit({ type: "tool_approved", toolName: tool.name, callId });
+
+      // Tools that ignore the signal are still abandoned as soon as the run is cancelled
+      const toolOptions = { signal: this.runSignal };
+      const result = await raceWithSignal(
+        request.args
+          ? tool.run("", request.args, toolOptions)
+          : tool.run(request.query, undefined, toolOptions),
+        this.runSignal
+      );
 
       this.logger.log("Tool execution result", { toolName: tool.name, result });
 
       if (this.hooks.onToolResult) {
         await this.hooks.onToolResult(tool.name, result);
       }
+      this.emit({ type: "tool_result", toolName: tool.name, result, callId });
 
       return result;
     } catch (err) {
+      // A tool's own aborted request (e.g. its fetch timeout) is a tool error, not a cancelled run
+      if (isCancellation(err) && this.runSignal?.aborted) {
+        throw err;
+      }
       const errorMsg = (err as Error).message;
       this.logger.error("Tool request failed", { error: errorMsg });
-      return `Error processing tool request: ${errorMsg}`;
+      const result = `Error processing tool request: ${errorMsg}`;
+      this.emit({ type: "tool_result", toolName: request.toolName, result, callId });
+      return result;
     }
   }
 
@@ -404,23 +1400,48 @@ export class Agent {
    * Called each iteration to see if we should stop for usage/time reasons
    */
   private shouldStop(elapsed: number): boolean {
+    if (this.runSignal?.aborted) return true;
     if (this.maxSteps !== -1 && this.stepCount >= this.maxSteps) return true;
     if (this.usageLimit !== -1 && this.llmCallsUsed >= this.usageLimit) return true;
     if (this.timeToLive !== -1 && elapsed >= this.timeToLive) return true;
+    if (this.isOverBudget()) return true;
     return false;
   }
 
-  private getStoppingReason(elapsed: number): string {
-    if (this.stepCount >= this.maxSteps) {
-      return `Max steps (${this.maxSteps}) reached without final answer.`;
+  /**
+   * True once this run's own cost limit, or a shared run budget, has been reached.
+   */
+  private isOverBudget(): boolean {
+    if (this.maxCostUsd !== -1 && this.costUsd >= this.maxCostUsd) return true;
+    return !!this.runBudget?.isExhausted();
+  }
+
+  private getStoppingReason(elapsed: number): { reason: StopReason; message: string } {
+    if (this.runSignal?.aborted) {
+      return { reason: "cancelled", message: `Run cancelled after ${this.stepCount} steps (${elapsed}ms).` };
+    }
+    if (this.maxSteps !== -1 && this.stepCount >= this.maxSteps) {
+      return { reason: "max_steps", message: `Max steps (${this.maxSteps}) reached without final answer.` };
     }
     if (this.usageLimit !== -1 && this.llmCallsUsed >= this.usageLimit) {
-      return `Usage limit (${this.usageLimit} calls) reached.`;
+      return { reason: "usage_limit", message: `Usage limit (${this.usageLimit} calls) reached.` };
+    }
+    if (this.timeToLive !== -1 && elapsed >= this.timeToLive) {
+      return { reason: "time_limit", message: `Time limit (${this.timeToLive}ms) reached after ${elapsed}ms.` };
+    }
+    if (this.maxCostUsd !== -1 && this.costUsd >= this.maxCostUsd) {
+      return {
+        reason: "cost_limit",
+        message: `Cost limit ($${this.maxCostUsd.toFixed(4)}) reached after spending $${this.costUsd.toFixed(4)}.`,
+      };
     }
-    if (elapsed >= this.timeToLive) {
-      return `Time limit (${this.timeToLive}ms) reached after ${elapsed}ms.`;
+    if (this.runBudget?.isExhausted()) {
+      return {
+        reason: "cost_limit",
+        message: `Shared cost limit ($${this.runBudget.maxCostUsd.toFixed(4)}) reached after spending $${this.runBudget.spent.toFixed(4)}.`,
+      };
     }
-    return "Unknown stopping condition reached.";
+    return { reason: "no_answer", message: "Unknown stopping condition reached." };
   }
 
   protected async handleReflection(reflectionContent: string): Promise<void> {
@@ -436,6 +1457,44 @@ export class Agent {
     this.logger.log(`Reflection stored: ${reflectionContent}`);
   }
 
+  /**
+   * After a failed validation: sends the validator's reason back to the model and returns true
+   * if another attempt is allowed (retries left, and LLM calls and budget for it), or returns
+   * false to accept the answer as is.
+   */
+  private async requestRevision(): Promise<boolean> {
+    const reason = this.validationHistory[this.validationHistory.length - 1]?.reason ?? "(no reason given)";
+    const retriesLeft = this.maxValidationRetries === -1 || this.validationRetries < this.maxValidationRetries;
+    const callsLeft = this.usageLimit === -1 || this.llmCallsUsed < this.usageLimit;
+    if (!retriesLeft || !callsLeft || this.isOverBudget()) {
+      this.logger.warn(`[Agent:${this.name}] Validation failed, no retries left. Returning the last answer.`, {
+        reason,
+        retries: this.validationRetries,
+      });
+      return false;
+    }
+
+    this.validationRetries++;
+    this.logger.log(`[Agent:${this.name}] Validation failed. Asking for a revision...`, {
+      reason,
+      retry: this.validationRetries,
+    });
+    await this.memory.addMessage({
+      role: "user",
+      content: `Your final answer did not pass validation: ${reason}\nRevise your answer to address this and respond with FINAL ANSWER: <your answer>.`,
+    });
+    return true;
+  }
+
+  /**
+   * Records a validator verdict in this run's history and reports it.
+   */
+  private recordValidation(record: ValidationRecord): void {
+    this.validationHistory.push(record);
+    this.emit({ type: "validation", ...record });
+    this.hooks.onValidation?.(record, [...this.validationHistory]);
+  }
+
   /**
    * Validate final answer if validateOutput===true and we have a validationModel.
    * If passes validation, returns true. If fails, returns false.
@@ -448,10 +1507,8 @@ export class Agent {
 
     const systemPrompt = `
 You are a validator that checks if an agent's final answer meets the user's task requirements.
-If the final answer is correct and satisfies the task, respond with a JSON:
-{"is_valid":true,"reason":"some short reason"}
-If it fails or is incomplete, respond with:
-{"is_valid":false,"reason":"some short reason"}
+Set "is_valid" to true if the final answer is correct and satisfies the task, or to false
+if it fails or is incomplete, and give a short "reason".
 
 User's task (if any): ${this.task ?? "(none provided)"}
 
@@ -459,24 +1516,31 @@ Agent's final answer to validate:
 ${finalAnswer}
     `;
 
-    const validatorOutput = await this.validationModel.call([
-      { role: "system", content: systemPrompt },
-    ]);
-
-    this.logger.log(`[Agent:${this.name}] Validator output:`, { validatorOutput });
-
-    // Attempt to parse
     try {
-      const parsed = JSON.parse(validatorOutput);
-      if (parsed.is_valid === true) {
-        this.logger.log(`[Agent:${this.name}] Validation PASSED: ${parsed.reason}`);
+      const verdict = await callStructured<{ is_valid: boolean; reason: string }>(
+        this.validationModel,
+        [{ role: "system", content: systemPrompt }],
+        VALIDATION_SCHEMA,
+        { ...this.callOptions(), name: "validation_result" }
+      );
+
+      this.recordValidation({ answer: finalAnswer, valid: verdict.is_valid, reason: verdict.reason });
+      if (verdict.is_valid) {
+        this.logger.log(`[Agent:${this.name}] Validation PASSED: ${verdict.reason}`);
         return true;
       } else {
-        this.logger.log(`[Agent:${this.name}] Validation FAILED: ${parsed.reason}`);
+        this.logger.log(`[Agent:${this.name}] Validation FAILED: ${verdict.reason}`);
         return false;
       }
     } catch (error) {
-      this.logger.warn(`[Agent:${this.name}] Could not parse validator output. Assuming fail.`, { validatorOutput });
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+      this.logger.warn(`[Agent:${this.name}] Could not parse validator output. Assuming fail.`, {
+        validatorOutput: error.output,
+        errors: error.errors,
+      });
+      this.recordValidation({ answer: finalAnswer, valid: false, reason: "Could not parse validator output." });
       return false;
     }
   }
@@ -0,0 +1,77 @@
+// src/agents/Approvals.ts
+
+import { ParsedToolRequest } from "../tools/ToolRequest";
+
+/**
+ * A tool call waiting for a human decision. The run is suspended (checkpointed) until it is
+ * resumed with a decision for this ticket (see AgentRunOptions.approvals).
+ * - checkpointId: the suspended run, to pass to Agent.resume
+ * - toolName / query / args: the call as the model proposed it
+ */
+export interface ApprovalTicket {
+  id: string;
+  checkpointId: string;
+  agentName: string;
+  toolName: string;
+  query: string;
+  args?: Record<string, any>;
+  requestedAt: number;
+}
+
+/**
+ * A reviewer's decision on an ApprovalTicket.
+ * - query / args: replace the proposed input when approving (edited arguments); for a call with
+ *   structured args, an edited `query` must be a JSON object, which replaces the args
+ * - reason: passed to the model when the call is denied
+ */
+export interface ApprovalDecision {
+  approved: boolean;
+  query?: string;
+  args?: Record<string, any>;
+  reason?: string;
+}
+
+/**
+ * Which tool calls need a human decision: a list of tool names, or a predicate.
+ */
+export type ApprovalPolicy = string[] | ((request: ParsedToolRequest) => boolean);
+
+export function requiresApproval(policy: ApprovalPolicy | undefined, request: ParsedToolRequest): boolean {
+  if (!policy) return false;
+  if (typeof policy === "function") return policy(request);
+  return policy.some((name) => name.toLowerCase() === request.toolName.toLowerCase());
+}
+
+/**
+ * The request to run for an approved ticket, with the reviewer's edits applied.
+ * A call with structured args only takes a `query` edit that is a JSON object (used as the args).
+ *
+ * @throws Error if the query edit of a call with args is not a JSON object
+ */
+export function applyApprovalDecision(request: ParsedToolRequest, decision: ApprovalDecision): ParsedToolRequest {
+  if (decision.args) {
+    return { toolName: request.toolName, query: JSON.stringify(decision.args), args: decision.args };
+  }
+  if (decision.query !== undefined && request.args) {
+    const args = parseArgs(decision.query);
+    if (!args) {
+      throw new Error(
+        `Tool "${request.toolName}" takes structured arguments; edit them with the decision's args, not its query.`
+      );
+    }
+    return { toolName: request.toolName, query: JSON.stringify(args), args };
+  }
+  if (decision.query !== undefined) {
+    return { toolName: request.toolName, query: decision.query };
+  }
+  return request;
+}
+
+function parseArgs(query: string): Record<string, any> | undefined {
+  try {
+    const value = JSON.parse(query);
+    return value && typeof value === "object" && !Array.isArray(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
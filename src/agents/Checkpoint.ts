@@ -0,0 +1,158 @@
+// src/agents/Checkpoint.ts
+
+import { promises as fs } from "fs";
+import path from "path";
+import { MemorySnapshot } from "../memory/Memory";
+import { ParsedToolRequest } from "../tools/ToolRequest";
+import { TokenUsage } from "../LLMs/TokenUsage";
+import { ContentPart } from "../LLMs/ContentParts";
+import { ApprovalTicket, ApprovalDecision } from "./Approvals";
+import { LoopDetectorState } from "./LoopDetector";
+
+/**
+ * A tool call of the current step, requested by the model but not yet stored in memory.
+ * `toolCallId` is set for native tool calls, whose results are stored as "tool" messages.
+ * `result` is set once the call has run (tool calls of a step run in parallel and are
+ * stored together), so a resumed run does not repeat it. `approval` is set for calls that
+ * need a human decision, with the decision once it has arrived.
+ */
+export interface PendingToolCall {
+  request: ParsedToolRequest;
+  toolCallId?: string;
+  result?: string;
+  approval?: { ticket: ApprovalTicket; decision?: ApprovalDecision };
+}
+
+/**
+ * The persisted state of an Agent run, saved after every step.
+ * - status: "running" until the run ends, then "finished" with its `output`; "suspended"
+ *   while tool calls wait for approval
+ * - memory: the agent's memory contents (see Memory.snapshot)
+ * - llmCallsUsed: the agent's LLM calls so far; runLlmCalls: the ones made by this run
+ * - elapsedMs: run time so far, so timeToLive keeps counting across restarts
+ * - plan: the planner's steps and the index of the next one to execute
+ * - pendingToolCalls: tool calls of the current step whose results are not in memory yet
+ * - loopDetector: the loop detector's counts, so repetitions keep counting across resumes
+ */
+export interface AgentCheckpoint {
+  id: string;
+  agentName: string;
+  status: "running" | "suspended" | "finished";
+  createdAt: number;
+  updatedAt: number;
+  query: string;
+  attachments?: ContentPart[];
+  memory: MemorySnapshot;
+  stepCount: number;
+  llmCallsUsed: number;
+  runLlmCalls?: number;
+  elapsedMs: number;
+  tokenUsage: TokenUsage;
+  costUsd: number;
+  plan?: { steps: Array<{ action: string; details: string }>; nextStep: number };
+  pendingToolCalls?: PendingToolCall[];
+  loopDetector?: LoopDetectorState;
+  output?: string;
+}
+
+/**
+ * Where Agent checkpoints are kept.
+ */
+export interface CheckpointStore {
+  save(checkpoint: AgentCheckpoint): Promise<void>;
+  load(id: string): Promise<AgentCheckpoint | undefined>;
+  delete(id: string): Promise<void>;
+  list(): Promise<string[]>;
+}
+
+/**
+ * Thrown by Agent.resume when the store has no checkpoint with the given id.
+ */
+export class CheckpointNotFoundError extends Error {
+  public checkpointId: string;
+
+  constructor(checkpointId: string) {
+    super(`No checkpoint found with id "${checkpointId}".`);
+    this.name = "CheckpointNotFoundError";
+    this.checkpointId = checkpointId;
+    Object.setPrototypeOf(this, CheckpointNotFoundError.prototype);
+  }
+}
+
+/**
+ * Keeps checkpoints in process memory (tests, or resuming after a caught failure).
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, AgentCheckpoint>();
+
+  public async save(checkpoint: AgentCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.id, JSON.parse(JSON.stringify(checkpoint)));
+  }
+
+  public async load(id: string): Promise<AgentCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(id);
+    return checkpoint ? JSON.parse(JSON.stringify(checkpoint)) : undefined;
+  }
+
+  public async delete(id: string): Promise<void> {
+    this.checkpoints.delete(id);
+  }
+
+  public async list(): Promise<string[]> {
+    return [...this.checkpoints.keys()];
+  }
+}
+
+/**
+ * Keeps each checkpoint as a JSON file in `directory` (created on first save), so runs
+ * survive process restarts.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private directory: string;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  /**
+   * Written to a temporary file first, so a crash mid-write never leaves a truncated checkpoint.
+   */
+  public async save(checkpoint: AgentCheckpoint): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.checkpointPath(checkpoint.id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(checkpoint, null, 2), "utf8");
+    await fs.rename(tmp, target);
+  }
+
+  public async load(id: string): Promise<AgentCheckpoint | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.checkpointPath(id), "utf8")) as AgentCheckpoint;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  public async delete(id: string): Promise<void> {
+    try {
+      await fs.unlink(this.checkpointPath(id));
+    } catch (err: any) {
+      if (err?.code !== "ENOENT") throw err;
+    }
+  }
+
+  public async list(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files.filter((f) => f.endsWith(".json")).map((f) => decodeURIComponent(f.slice(0, -".json".length)));
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return [];
+      throw err;
+    }
+  }
+
+  private checkpointPath(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+}
@@ -5,11 +5,12 @@
   * The convergence checker uses an LLM to determine if content meets specific criteria.
   * The criteria can include required elements, structure, minimum length, and custom instructions.
   * The checker prompts the LLM to analyze the content and make a decision.
-  * The response is parsed to get the yes/no decision.
+  * The decision is requested as schema-validated JSON (see callStructured).
   * The checker can be extended to support additional criteria and custom instructions.
   */
 
-import { OpenAIChat } from "../LLMs/OpenAIChat";
+import { ChatModel } from "../LLMs/ChatModel";
+import { callStructured } from "../LLMs/StructuredOutput";
 import { DebugLogger } from "../utils/DebugLogger";
 
 export interface ConvergenceCriteria {
@@ -19,12 +20,22 @@ export interface ConvergenceCriteria {
   customInstructions?: string[];   // Additional checking instructions
 }
 
+const CONVERGENCE_SCHEMA = {
+  type: "object",
+  properties: {
+    converged: { type: "boolean" },
+    reasoning: { type: "string" }
+  },
+  required: ["converged", "reasoning"],
+  additionalProperties: false
+};
+
 export class LLMConvergenceChecker {
-  private model: OpenAIChat;
+  private model: ChatModel;
   private logger: DebugLogger;
 
   constructor(
-    model: OpenAIChat,
+    model: ChatModel,
     private criteria: ConvergenceCriteria,
     debug: boolean = false
   ) {
@@ -39,18 +50,19 @@ export class LLMConvergenceChecker {
     const prompt = this.buildConvergencePrompt(content);
     
     try {
-      const response = await this.model.call([{
-        role: "user",
-        content: prompt
-      }]);
-      const decision = this.parseDecision(response);
+      const response = await callStructured<{ converged: boolean; reasoning: string }>(
+        this.model,
+        [{ role: "user", content: prompt }],
+        CONVERGENCE_SCHEMA,
+        { name: "convergence_decision" }
+      );
       
       this.logger.log("Convergence check result", {
-        decision,
-        reasoning: response
+        decision: response.converged,
+        reasoning: response.reasoning
       });
 
-      return decision;
+      return response.converged;
     } catch (error) {
       this.logger.error("Error in convergence check", error);
       return false; // Default to not converged on error
@@ -86,16 +98,7 @@ export class LLMConvergenceChecker {
       ---
 
       Analyze the content and determine if it meets ALL criteria.
-      Respond with "YES" or "NO" followed by a brief explanation.
-      Your response must start with either "YES:" or "NO:" followed by your reasoning.
+      Set "converged" to true only if every criterion is met, and explain briefly in "reasoning".
     `;
   }
-
-  /**
-   * Parse the LLM's response to get the yes/no decision
-   */
-  private parseDecision(response: string): boolean {
-    const normalized = response.trim().toLowerCase();
-    return normalized.startsWith("yes:");
-  }
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+// src/agents/LoopDetector.ts
+
+import { ParsedToolRequest } from "../tools/ToolRequest";
+
+/**
+ * What the agent does when it detects a loop:
+ * - inject_message: skip the repeated step and tell the model to change course (default)
+ * - force_final_answer: make one last LLM call that must answer with what it has so far
+ * - stop: end the run with the "loop_detected" stop reason
+ */
+export type LoopStrategy = "inject_message" | "force_final_answer" | "stop";
+
+/**
+ * Options for loop detection (see AgentOptions.loopDetection).
+ * - maxRepeatedToolCalls: the same tool with the same input, requested this many times in a
+ *   run, is a loop (default 3)
+ * - maxSimilarOutputs: this many near-identical intermediate outputs among the recent ones
+ *   are a loop (default 3)
+ * - similarityThreshold: 0..1, how alike two outputs must be to count as near-identical (default 0.9)
+ * - strategy: what to do about a loop (default "inject_message")
+ */
+export interface LoopDetectionOptions {
+  maxRepeatedToolCalls?: number;
+  maxSimilarOutputs?: number;
+  similarityThreshold?: number;
+  strategy?: LoopStrategy;
+}
+
+/**
+ * A detected loop, as reported to the onLoopDetected hook.
+ * - repetitions: how often the call or output has occurred, including this time
+ * - toolName / query: the repeated tool call, for "repeated_tool_call"
+ */
+export interface LoopDetection {
+  kind: "repeated_tool_call" | "repeated_output";
+  description: string;
+  repetitions: number;
+  toolName?: string;
+  query?: string;
+}
+
+/**
+ * A LoopDetector's counts, as saved in checkpoints: how often each tool call was requested
+ * (keyed by tool name and input) and the recent normalized outputs.
+ */
+export interface LoopDetectorState {
+  toolCalls: Array<[string, number]>;
+  outputs: string[];
+}
+
+const RECENT_OUTPUTS = 10;
+
+/**
+ * Tracks a run's tool calls and intermediate outputs and reports when they start repeating.
+ */
+export class LoopDetector {
+  public readonly strategy: LoopStrategy;
+  private maxRepeatedToolCalls: number;
+  private maxSimilarOutputs: number;
+  private similarityThreshold: number;
+  private toolCalls = new Map<string, number>();
+  private outputs: string[] = [];
+
+  constructor(options: LoopDetectionOptions = {}) {
+    this.strategy = options.strategy ?? "inject_message";
+    this.maxRepeatedToolCalls = options.maxRepeatedToolCalls ?? 3;
+    this.maxSimilarOutputs = options.maxSimilarOutputs ?? 3;
+    this.similarityThreshold = options.similarityThreshold ?? 0.9;
+  }
+
+  /**
+   * Records the tool calls of one turn; returns the first that has now been requested
+   * maxRepeatedToolCalls times, if any.
+   */
+  public recordToolCalls(requests: ParsedToolRequest[]): LoopDetection | null {
+    let detected: LoopDetection | null = null;
+    for (const request of requests) {
+      const input = request.args ? JSON.stringify(request.args) : request.query.trim();
+      const key = `${request.toolName.toLowerCase()}\u0000${input}`;
+      const count = (this.toolCalls.get(key) ?? 0) + 1;
+      this.toolCalls.set(key, count);
+
+      if (!detected && count >= this.maxRepeatedToolCalls) {
+        detected = {
+          kind: "repeated_tool_call",
+          description: `You have called ${request.toolName} with the same input ${count} times.`,
+          repetitions: count,
+          toolName: request.toolName,
+          query: input,
+        };
+      }
+    }
+    return detected;
+  }
+
+  public snapshot(): LoopDetectorState {
+    return { toolCalls: [...this.toolCalls.entries()], outputs: [...this.outputs] };
+  }
+
+  public restore(state: LoopDetectorState): void {
+    this.toolCalls = new Map(state.toolCalls);
+    this.outputs = [...state.outputs];
+  }
+
+  /**
+   * Records an intermediate output; returns a detection once maxSimilarOutputs of the recent
+   * outputs (including this one) are near-identical.
+   */
+  public recordOutput(output: string): LoopDetection | null {
+    const normalized = normalize(output);
+    const repetitions = 1 + this.outputs.filter((o) => similarity(o, normalized) >= this.similarityThreshold).length;
+    this.outputs.push(normalized);
+    if (this.outputs.length > RECENT_OUTPUTS) {
+      this.outputs.shift();
+    }
+
+    if (repetitions < this.maxSimilarOutputs) {
+      return null;
+    }
+    return {
+      kind: "repeated_output",
+      description: `You have given nearly the same response ${repetitions} times.`,
+      repetitions,
+    };
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Dice coefficient over character bigrams: 1 for identical strings, 0 for nothing in common.
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
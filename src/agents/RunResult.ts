@@ -0,0 +1,185 @@
+// src/agents/RunResult.ts
+
+import { AgentEvent } from "./Agent";
+import { ToolCall, ModelServedInfo } from "../LLMs/ChatModel";
+import { TokenUsage } from "../LLMs/TokenUsage";
+import { ApprovalTicket } from "./Approvals";
+
+/**
+ * Why a run ended:
+ * - final_answer: the model produced an answer (see `validations` for whether it passed)
+ * - max_steps / usage_limit / time_limit: a step, LLM-call or time limit was reached
+ * - cost_limit: the run's own or a shared cost budget was exhausted
+ * - cancelled: the run's signal was aborted
+ * - no_answer: the run finished without an answer (e.g. a plan without a final step)
+ * - loop_detected: the run kept repeating itself and loop detection's "stop" strategy ended it
+ * - awaiting_approval: the run is suspended until its tool calls are approved or denied
+ */
+export type StopReason =
+  | "final_answer"
+  | "max_steps"
+  | "usage_limit"
+  | "time_limit"
+  | "cost_limit"
+  | "cancelled"
+  | "no_answer"
+  | "loop_detected"
+  | "awaiting_approval";
+
+/**
+ * A tool call made during a step. `approved` is false when the onToolCall hook denied it
+ * or the request failed validation before it could run. `callId` identifies the call among
+ * the step's calls, which may have run in parallel.
+ */
+export interface RunToolCall {
+  callId?: string;
+  toolName: string;
+  query: string;
+  args?: Record<string, any>;
+  approved: boolean;
+  result?: string;
+}
+
+/**
+ * One step of the trajectory: a reasoning step of the reflection loop, the single pass,
+ * or a plan step.
+ * - llmOutput / llmToolCalls: what the model returned in this step, if it was called
+ * - message: the step's intermediate output (neither a tool request nor the answer)
+ */
+export interface RunStep {
+  step: number;
+  startedAt: number;
+  durationMs: number;
+  llmOutput?: string;
+  llmToolCalls?: ToolCall[];
+  toolCalls: RunToolCall[];
+  message?: string;
+}
+
+/**
+ * A validator verdict on a candidate final answer.
+ */
+export interface ValidationRecord {
+  answer: string;
+  valid: boolean;
+  reason: string;
+}
+
+/**
+ * The outcome of Agent.runDetailed.
+ * - answer: the final answer, if the run produced one
+ * - output: the string Agent.run would have returned (the answer or a stop message)
+ * - stopReason / stopMessage: why the run ended, as a code and as text
+ * - steps: the trajectory, in order
+ * - llmCalls: LLM calls made by this run, including those made before it was resumed
+ * - pendingApprovals: the tickets a suspended run is waiting for
+ */
+export interface RunResult {
+  answer?: string;
+  output: string;
+  stopReason: StopReason;
+  stopMessage: string;
+  steps: RunStep[];
+  validations: ValidationRecord[];
+  usage: TokenUsage;
+  costUsd: number;
+  llmCalls: number;
+  servedModels: ModelServedInfo[];
+  pendingApprovals?: ApprovalTicket[];
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+}
+
+/**
+ * Builds a run's trajectory from its AgentEvents.
+ */
+export class TrajectoryRecorder {
+  private steps: RunStep[] = [];
+  private validations: ValidationRecord[] = [];
+
+  public record(event: AgentEvent): void {
+    const now = Date.now();
+    const current = this.steps[this.steps.length - 1];
+
+    switch (event.type) {
+      case "step_start":
+        this.closeStep(now);
+        this.steps.push({ step: event.step, startedAt: now, durationMs: 0, toolCalls: [] });
+        break;
+      case "llm_output":
+        if (current) {
+          current.llmOutput = event.content;
+          if (event.toolCalls && event.toolCalls.length > 0) current.llmToolCalls = event.toolCalls;
+        }
+        break;
+      case "tool_call_requested":
+        current?.toolCalls.push({
+          ...(event.callId !== undefined ? { callId: event.callId } : {}),
+          toolName: event.toolName,
+          query: event.query,
+          ...(event.args ? { args: event.args } : {}),
+          approved: false,
+        });
+        break;
+      case "tool_approved":
+      case "tool_denied": {
+        const call = this.pendingCall(event.toolName, event.callId);
+        if (call) call.approved = event.type === "tool_approved";
+        break;
+      }
+      case "tool_result": {
+        const call = this.pendingCall(event.toolName, event.callId);
+        if (call) call.result = event.result;
+        else
+          current?.toolCalls.push({
+            ...(event.callId !== undefined ? { callId: event.callId } : {}),
+            toolName: event.toolName,
+            query: "",
+            approved: false,
+            result: event.result,
+          });
+        break;
+      }
+      case "message":
+        if (current) current.message = event.content;
+        break;
+      case "validation":
+        this.validations.push({ answer: event.answer, valid: event.valid, reason: event.reason });
+        break;
+    }
+  }
+
+  /**
+   * The trajectory so far; the last step's duration runs until `finishedAt`.
+   */
+  public snapshot(finishedAt: number): { steps: RunStep[]; validations: ValidationRecord[] } {
+    this.closeStep(finishedAt);
+    return {
+      steps: this.steps.map((s) => ({ ...s, toolCalls: s.toolCalls.map((c) => ({ ...c })) })),
+      validations: [...this.validations],
+    };
+  }
+
+  private closeStep(now: number): void {
+    const current = this.steps[this.steps.length - 1];
+    if (current) current.durationMs = now - current.startedAt;
+  }
+
+  /**
+   * The current step's call with this `callId`, or for events without one, the latest call
+   * to `toolName` that has no result yet.
+   */
+  private pendingCall(toolName: string, callId?: string): RunToolCall | undefined {
+    const current = this.steps[this.steps.length - 1];
+    if (!current) return undefined;
+    if (callId !== undefined) {
+      return current.toolCalls.find((call) => call.callId === callId);
+    }
+    for (let i = current.toolCalls.length - 1; i >= 0; i--) {
+      const call = current.toolCalls[i];
+      if (call.toolName === toolName && call.result === undefined) return call;
+    }
+    return undefined;
+  }
+}
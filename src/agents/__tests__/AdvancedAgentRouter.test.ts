@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Agent } from "../Agent";
+import { AdvancedAgentRouter, AgentCapability } from "../multi-agent/AdvancedAgentRouter";
+import { ShortTermMemory } from "../../memory/ShortTermMemory";
+import { ChatModel } from "../../LLMs/ChatModel";
+
+function replyingModel(reply: (prompt: string) => string): ChatModel & { prompts: string[] } {
+  const model = {
+    prompts: [] as string[],
+    async call(messages: { content: string }[]): Promise<string> {
+      const prompt = messages.map((m) => m.content).join("\n");
+      model.prompts.push(prompt);
+      return reply(prompt);
+    },
+  };
+  return model;
+}
+
+const capabilities = new Map<number, AgentCapability>([
+  [0, { name: "Math", description: "Arithmetic", keywords: ["sum"], examples: [] }],
+  [1, { name: "General", description: "Anything else", keywords: [], examples: [] }],
+]);
+
+test("routes with the fallback agent's model when useLLM is set without a routerModel", async () => {
+  const mathModel = replyingModel(() => "FINAL ANSWER: 4");
+  const generalModel = replyingModel((prompt) =>
+    prompt.includes("routing system")
+      ? JSON.stringify({ selectedAgent: 0, confidence: 0.9, reasoning: "arithmetic" })
+      : "FINAL ANSWER: general"
+  );
+  const agents = [
+    new Agent({ name: "Math", model: mathModel, memory: new ShortTermMemory(10) }),
+    new Agent({ name: "General", model: generalModel, memory: new ShortTermMemory(10) }),
+  ];
+
+  const router = new AdvancedAgentRouter(agents, capabilities, { useLLM: true });
+  assert.equal(await router.run("What is 2 + 2?"), "4");
+  assert.equal(generalModel.prompts.length, 1);
+});
+
+test("rejects useLLM without a routerModel or a fallback agent", () => {
+  assert.throws(() => new AdvancedAgentRouter([], new Map(), { useLLM: true }), /useLLM needs a routerModel/);
+});
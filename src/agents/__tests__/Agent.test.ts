@@ -0,0 +1,309 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Agent, AgentOptions } from "../Agent";
+import { ShortTermMemory } from "../../memory/ShortTermMemory";
+import { ChatModel, ChatMessage, ChatCallOptions } from "../../LLMs/ChatModel";
+import { Tool } from "../../tools/Tools";
+import { InMemoryCheckpointStore } from "../Checkpoint";
+
+/**
+ * A model that replies with `replies` in order (the last one repeats) and reports
+ * 1000 prompt + 1000 completion tokens per call for "stub-model".
+ */
+function scriptedModel(replies: Array<string | ((messages: ChatMessage[]) => string)>): ChatModel & { calls: number } {
+  const model = {
+    calls: 0,
+    async call(messages: ChatMessage[], options?: ChatCallOptions): Promise<string> {
+      const reply = replies[Math.min(model.calls, replies.length - 1)];
+      model.calls++;
+      options?.onUsage?.({ promptTokens: 1000, completionTokens: 1000, totalTokens: 2000, model: "stub-model" });
+      return typeof reply === "function" ? reply(messages) : reply;
+    },
+  };
+  return model;
+}
+
+function agent(
+  model: ChatModel,
+  options: AgentOptions = {},
+  extra: Partial<ConstructorParameters<typeof Agent>[0]> = {}
+): Agent {
+  return new Agent({
+    name: "Test",
+    model,
+    memory: new ShortTermMemory(100),
+    ...extra,
+    options: { priceTable: { "stub-model": { inputPerMillion: 1, outputPerMillion: 1 } }, ...options },
+  });
+}
+
+/**
+ * A tool that returns "echo:<input>" and remembers its inputs.
+ */
+function echoTool(): Tool & { inputs: string[] } {
+  const tool = {
+    name: "Echo",
+    inputs: [] as string[],
+    async run(input: string): Promise<string> {
+      tool.inputs.push(input);
+      return `echo:${input}`;
+    },
+  };
+  return tool;
+}
+
+/**
+ * All message contents of a prompt, for checking what the model was shown.
+ */
+function transcript(messages: ChatMessage[]): string {
+  return messages.map((m) => m.content).join("\n");
+}
+
+for (const [label, limits] of [
+  ["maxSteps", { maxSteps: -1 }],
+  ["timeToLive", { timeToLive: -1 }],
+  ["maxSteps and timeToLive", { maxSteps: -1, timeToLive: -1 }],
+] as const) {
+  test(`reports cost_limit when ${label} is unlimited`, async () => {
+    const model = scriptedModel(["Still thinking..."]);
+    const result = await agent(model, { ...limits, usageLimit: -1, maxCostUsd: 0.001 }).runDetailed("q");
+    assert.equal(result.stopReason, "cost_limit");
+    assert.match(result.stopMessage, /Cost limit/);
+  });
+}
+
+test("records parallel calls to the same tool with their own results", async () => {
+  // "b" takes longer, so "a" has its result while both calls are still pending
+  const echo: Tool = {
+    name: "Echo",
+    async run(input: string): Promise<string> {
+      await new Promise((resolve) => setTimeout(resolve, input === "b" ? 30 : 0));
+      return `echo:${input}`;
+    },
+  };
+  const model = scriptedModel(['TOOL REQUEST: Echo "a"\nTOOL REQUEST: Echo "b"', "FINAL ANSWER: done"]);
+  const result = await agent(model, {}, { tools: [echo] }).runDetailed("q");
+
+  assert.deepEqual(
+    result.steps[0].toolCalls.map(({ query, result }) => ({ query, result })),
+    [
+      { query: "a", result: "echo:a" },
+      { query: "b", result: "echo:b" },
+    ]
+  );
+});
+
+test("does not detect loops unless loopDetection is set", async () => {
+  const reply = "I should think about this some more.";
+  const off = await agent(scriptedModel([reply]), { maxSteps: 4 }).runDetailed("q");
+  assert.equal(off.stopReason, "max_steps");
+
+  const on = await agent(scriptedModel([reply]), { maxSteps: 4, loopDetection: { strategy: "stop" } }).runDetailed("q");
+  assert.equal(on.stopReason, "loop_detected");
+});
+
+test("suspends on a tool call that needs approval and resumes with an edited decision", async () => {
+  const store = new InMemoryCheckpointStore();
+  const echo = echoTool();
+  const model = scriptedModel([
+    'TOOL REQUEST: Echo "a"',
+    (messages) => (transcript(messages).includes("echo:edited") ? "FINAL ANSWER: done" : "FINAL ANSWER: wrong"),
+  ]);
+  const options: AgentOptions = { checkpointStore: store, requireApproval: ["Echo"] };
+
+  const suspended = await agent(model, options, { tools: [echo] }).runDetailed("q");
+  assert.equal(suspended.stopReason, "awaiting_approval");
+  assert.equal(suspended.pendingApprovals?.length, 1);
+  const [ticket] = suspended.pendingApprovals!;
+  assert.equal(ticket.toolName, "Echo");
+  assert.equal(ticket.query, "a");
+  assert.deepEqual(echo.inputs, []);
+
+  // A fresh agent, as after a restart, picks the run up from the store
+  const output = await agent(model, options, { tools: [echo] }).resume(ticket.checkpointId, {
+    approvals: { [ticket.id]: { approved: true, query: "edited" } },
+  });
+  assert.equal(output, "done");
+  assert.deepEqual(echo.inputs, ["edited"]);
+  assert.equal(model.calls, 2);
+});
+
+test("stays suspended without a decision and tells the model about a denial", async () => {
+  const store = new InMemoryCheckpointStore();
+  const echo = echoTool();
+  const model = scriptedModel([
+    'TOOL REQUEST: Echo "a"',
+    (messages) =>
+      transcript(messages).includes("denied by a reviewer: not now") ? "FINAL ANSWER: ok" : "FINAL ANSWER: ?",
+  ]);
+  const suspendedAgent = agent(model, { checkpointStore: store, requireApproval: ["Echo"] }, { tools: [echo] });
+  await suspendedAgent.run("q");
+  const [ticket] = suspendedAgent.getPendingApprovals();
+
+  assert.match(await suspendedAgent.resume(ticket.checkpointId), /waiting for approval of Echo/);
+  assert.deepEqual(suspendedAgent.getPendingApprovals().map((t) => t.id), [ticket.id]);
+  assert.equal(model.calls, 1);
+
+  const output = await suspendedAgent.resume(ticket.checkpointId, {
+    approvals: { [ticket.id]: { approved: false, reason: "not now" } },
+  });
+  assert.equal(output, "ok");
+  assert.deepEqual(echo.inputs, []);
+});
+
+test("resumes a failed run from its last checkpoint without repeating finished steps", async () => {
+  const store = new InMemoryCheckpointStore();
+  const echo = echoTool();
+  const failing = scriptedModel([
+    'TOOL REQUEST: Echo "a"',
+    () => {
+      throw new Error("connection reset");
+    },
+  ]);
+  const crashed = agent(failing, { checkpointStore: store }, { tools: [echo] });
+  await assert.rejects(crashed.run("q"), /connection reset/);
+  const checkpointId = crashed.getCheckpointId()!;
+
+  const model = scriptedModel([
+    (messages) => (transcript(messages).includes("echo:a") ? "FINAL ANSWER: done" : "FINAL ANSWER: ?"),
+  ]);
+  const resumed = agent(model, { checkpointStore: store }, { tools: [echo] });
+  assert.equal(await resumed.resume(checkpointId), "done");
+  assert.deepEqual(echo.inputs, ["a"]);
+  assert.equal(model.calls, 1);
+
+  // A finished run resolves with its output without calling the model again
+  assert.equal(await resumed.resume(checkpointId), "done");
+  assert.equal(model.calls, 1);
+});
+
+test("calls onFinalAnswer for an answer reached through the planner", async () => {
+  const answers: string[] = [];
+  const planner = {
+    async generatePlan(): Promise<string> {
+      return JSON.stringify([{ action: "complete", details: "42" }]);
+    },
+  };
+  const hooks = { onFinalAnswer: (answer: string) => void answers.push(answer) };
+  const output = await agent(scriptedModel(["unused"]), {}, { planner, hooks }).run("q");
+  assert.equal(output, "42");
+  assert.deepEqual(answers, ["42"]);
+});
+
+test("suspends planned tool steps that need approval", async () => {
+  const store = new InMemoryCheckpointStore();
+  const echo = echoTool();
+  const planner = {
+    async generatePlan(): Promise<string> {
+      return JSON.stringify([
+        { action: "tool", details: "Echo" },
+        { action: "complete", details: "done" },
+      ]);
+    },
+  };
+  const options: AgentOptions = { checkpointStore: store, requireApproval: ["Echo"] };
+
+  const suspended = await agent(scriptedModel(["unused"]), options, { tools: [echo], planner }).runDetailed("q");
+  assert.equal(suspended.stopReason, "awaiting_approval");
+  const [ticket] = suspended.pendingApprovals!;
+  assert.equal(ticket.toolName, "Echo");
+  assert.deepEqual(echo.inputs, []);
+
+  const resumed = agent(scriptedModel(["unused"]), options, { tools: [echo], planner });
+  const output = await resumed.resume(ticket.checkpointId, { approvals: { [ticket.id]: { approved: true } } });
+  assert.equal(output, "done");
+  assert.deepEqual(echo.inputs, ["q"]);
+});
+
+test("reports a tool's own aborted request as a tool error, not a cancelled run", async () => {
+  const timingOut: Tool = {
+    name: "Slow",
+    async run(): Promise<string> {
+      const error = new Error("The operation was aborted due to timeout");
+      error.name = "AbortError";
+      throw error;
+    },
+  };
+  const model = scriptedModel([
+    'TOOL REQUEST: Slow "x"',
+    (messages) =>
+      transcript(messages).includes("Error processing tool request") ? "FINAL ANSWER: recovered" : "FINAL ANSWER: ?",
+  ]);
+  const result = await agent(model, {}, { tools: [timingOut] }).runDetailed("q");
+  assert.equal(result.stopReason, "final_answer");
+  assert.equal(result.answer, "recovered");
+});
+
+test("stops with the cancelled reason when the run's signal aborts during a tool call", async () => {
+  const controller = new AbortController();
+  const aborting: Tool = {
+    name: "Slow",
+    async run(): Promise<string> {
+      controller.abort();
+      return new Promise(() => {});
+    },
+  };
+  const result = await agent(scriptedModel(['TOOL REQUEST: Slow "x"']), {}, { tools: [aborting] }).runDetailed("q", {
+    signal: controller.signal,
+  });
+  assert.equal(result.stopReason, "cancelled");
+});
+
+test("validates the answer forced by loop detection", async () => {
+  const model = scriptedModel([
+    'TOOL REQUEST: Echo "a"',
+    'TOOL REQUEST: Echo "a"',
+    "FINAL ANSWER: bad",
+    "FINAL ANSWER: good",
+  ]);
+  const validator = scriptedModel([
+    (messages) => JSON.stringify({ is_valid: transcript(messages).includes("good"), reason: "needs to be good" }),
+  ]);
+  const options: AgentOptions = {
+    validateOutput: true,
+    loopDetection: { maxRepeatedToolCalls: 2, strategy: "force_final_answer" },
+  };
+  const result = await agent(model, options, { tools: [echoTool()], validationModel: validator }).runDetailed("q");
+
+  assert.equal(result.answer, "good");
+  assert.deepEqual(result.validations.map((v) => v.valid), [false, true]);
+});
+
+test("waits for onFinalAnswer without reflection", async () => {
+  let seen = "";
+  const hooks = {
+    onFinalAnswer: async (answer: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      seen = answer;
+    },
+  };
+  const output = await agent(scriptedModel(["Just the answer"]), { useReflection: false }, { hooks }).run("q");
+  assert.equal(output, "Just the answer");
+  assert.equal(seen, "Just the answer");
+});
+
+test("keeps loop-detection counts and the run's LLM calls across a resume", async () => {
+  const store = new InMemoryCheckpointStore();
+  const echo = echoTool();
+  const options: AgentOptions = {
+    checkpointStore: store,
+    loopDetection: { maxRepeatedToolCalls: 2, strategy: "stop" },
+  };
+  const failing = scriptedModel([
+    'TOOL REQUEST: Echo "a"',
+    () => {
+      throw new Error("connection reset");
+    },
+  ]);
+  const crashed = agent(failing, options, { tools: [echo] });
+  await assert.rejects(crashed.run("q"), /connection reset/);
+  const checkpointId = crashed.getCheckpointId()!;
+
+  const resumed = agent(scriptedModel(['TOOL REQUEST: Echo "a"']), options, { tools: [echo] });
+  assert.match(await resumed.resume(checkpointId), /loop/i);
+  assert.deepEqual(echo.inputs, ["a"]);
+
+  const checkpoint = await store.load(checkpointId);
+  assert.equal(checkpoint?.status, "finished");
+  assert.equal(checkpoint?.runLlmCalls, 2);
+});
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyApprovalDecision, requiresApproval } from "../Approvals";
+
+const search = { toolName: "Search", query: "cats" };
+const weather = { toolName: "Weather", query: '{"location":"Paris"}', args: { location: "Paris" } };
+
+test("applies edited queries and args", () => {
+  assert.deepEqual(applyApprovalDecision(search, { approved: true }), search);
+  assert.deepEqual(applyApprovalDecision(search, { approved: true, query: "dogs" }), {
+    toolName: "Search",
+    query: "dogs",
+  });
+  assert.deepEqual(applyApprovalDecision(weather, { approved: true, args: { location: "Rome" } }), {
+    toolName: "Weather",
+    query: '{"location":"Rome"}',
+    args: { location: "Rome" },
+  });
+});
+
+test("keeps structured args when the query edit is a JSON object, and rejects other query edits", () => {
+  assert.deepEqual(applyApprovalDecision(weather, { approved: true, query: '{"location":"Rome"}' }), {
+    toolName: "Weather",
+    query: '{"location":"Rome"}',
+    args: { location: "Rome" },
+  });
+  assert.throws(() => applyApprovalDecision(weather, { approved: true, query: "Rome" }), /structured arguments/);
+});
+
+test("matches tool names case-insensitively, or by predicate", () => {
+  assert.equal(requiresApproval(["search"], search), true);
+  assert.equal(requiresApproval(["Weather"], search), false);
+  assert.equal(requiresApproval((request) => request.query === "cats", search), true);
+  assert.equal(requiresApproval(undefined, search), false);
+});
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LoopDetector } from "../LoopDetector";
+
+test("reports a tool call repeated maxRepeatedToolCalls times", () => {
+  const detector = new LoopDetector({ maxRepeatedToolCalls: 2 });
+  assert.equal(detector.recordToolCalls([{ toolName: "Search", query: "cats" }]), null);
+  assert.equal(detector.recordToolCalls([{ toolName: "Search", query: "dogs" }]), null);
+
+  const loop = detector.recordToolCalls([{ toolName: "search", query: "  cats " }]);
+  assert.equal(loop?.kind, "repeated_tool_call");
+  assert.equal(loop?.repetitions, 2);
+  assert.equal(loop?.toolName, "search");
+  assert.equal(loop?.query, "cats");
+});
+
+test("compares structured tool calls by their args", () => {
+  const detector = new LoopDetector({ maxRepeatedToolCalls: 2 });
+  detector.recordToolCalls([{ toolName: "Weather", query: "", args: { location: "Paris" } }]);
+  assert.equal(detector.recordToolCalls([{ toolName: "Weather", query: "", args: { location: "Rome" } }]), null);
+  assert.equal(
+    detector.recordToolCalls([{ toolName: "Weather", query: "", args: { location: "Paris" } }])?.repetitions,
+    2
+  );
+});
+
+test("reports near-identical outputs once maxSimilarOutputs are seen", () => {
+  const detector = new LoopDetector();
+  assert.equal(detector.recordOutput("I need to look up the weather in Paris."), null);
+  assert.equal(detector.recordOutput("Something else entirely."), null);
+  assert.equal(detector.recordOutput("I need to look up the  weather in Paris!"), null);
+
+  const loop = detector.recordOutput("i need to look up the weather in paris.");
+  assert.equal(loop?.kind, "repeated_output");
+  assert.equal(loop?.repetitions, 3);
+});
+
+test("only compares against the recent outputs", () => {
+  const detector = new LoopDetector({ maxSimilarOutputs: 2 });
+  detector.recordOutput("The same thought again.");
+  for (let i = 0; i < 10; i++) {
+    detector.recordOutput(`Distinct output number ${i} ${"x".repeat(i * 5)}`);
+  }
+  assert.equal(detector.recordOutput("The same thought again."), null);
+});
+
+test("defaults to the inject_message strategy", () => {
+  assert.equal(new LoopDetector().strategy, "inject_message");
+  assert.equal(new LoopDetector({ strategy: "stop" }).strategy, "stop");
+});
+
+test("restores its counts from a snapshot", () => {
+  const detector = new LoopDetector({ maxRepeatedToolCalls: 2, maxSimilarOutputs: 2 });
+  detector.recordToolCalls([{ toolName: "Search", query: "cats" }]);
+  detector.recordOutput("Let me search again.");
+
+  const restored = new LoopDetector({ maxRepeatedToolCalls: 2, maxSimilarOutputs: 2 });
+  restored.restore(JSON.parse(JSON.stringify(detector.snapshot())));
+  assert.equal(restored.recordToolCalls([{ toolName: "Search", query: "cats" }])?.repetitions, 2);
+  assert.equal(restored.recordOutput("Let me search again.")?.repetitions, 2);
+});
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TrajectoryRecorder } from "../RunResult";
+
+test("matches tool events to calls by callId", () => {
+  const recorder = new TrajectoryRecorder();
+  recorder.record({ type: "step_start", step: 1 });
+  recorder.record({ type: "tool_call_requested", toolName: "Echo", query: "a", callId: "1-1" });
+  recorder.record({ type: "tool_call_requested", toolName: "Echo", query: "b", callId: "1-2" });
+  recorder.record({ type: "tool_approved", toolName: "Echo", callId: "1-1" });
+  recorder.record({ type: "tool_denied", toolName: "Echo", callId: "1-2" });
+  recorder.record({ type: "tool_result", toolName: "Echo", result: "denied", callId: "1-2" });
+  recorder.record({ type: "tool_result", toolName: "Echo", result: "echo:a", callId: "1-1" });
+
+  const [step] = recorder.snapshot(Date.now()).steps;
+  assert.deepEqual(
+    step.toolCalls.map(({ query, approved, result }) => ({ query, approved, result })),
+    [
+      { query: "a", approved: true, result: "echo:a" },
+      { query: "b", approved: false, result: "denied" },
+    ]
+  );
+});
+
+test("matches tool events without a callId to the latest pending call of that tool", () => {
+  const recorder = new TrajectoryRecorder();
+  recorder.record({ type: "step_start", step: 1 });
+  recorder.record({ type: "tool_call_requested", toolName: "Echo", query: "a" });
+  recorder.record({ type: "tool_approved", toolName: "Echo" });
+  recorder.record({ type: "tool_result", toolName: "Echo", result: "echo:a" });
+  recorder.record({ type: "tool_result", toolName: "Other", result: "unrequested" });
+
+  const [step] = recorder.snapshot(Date.now()).steps;
+  assert.equal(step.toolCalls.length, 2);
+  assert.deepEqual(step.toolCalls[0], { toolName: "Echo", query: "a", approved: true, result: "echo:a" });
+  assert.deepEqual(step.toolCalls[1], { toolName: "Other", query: "", approved: false, result: "unrequested" });
+});
+
+test("keeps tool calls with the step they were made in", () => {
+  const recorder = new TrajectoryRecorder();
+  recorder.record({ type: "step_start", step: 1 });
+  recorder.record({ type: "tool_call_requested", toolName: "Echo", query: "a", callId: "1-1" });
+  recorder.record({ type: "tool_result", toolName: "Echo", result: "echo:a", callId: "1-1" });
+  recorder.record({ type: "step_start", step: 2 });
+  recorder.record({ type: "message", content: "done" });
+
+  const { steps } = recorder.snapshot(Date.now());
+  assert.deepEqual(
+    steps.map((s) => [s.step, s.toolCalls.length, s.message]),
+    [
+      [1, 1, undefined],
+      [2, 0, "done"],
+    ]
+  );
+});
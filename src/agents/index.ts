@@ -1,2 +1,6 @@
 export * from "./Agent";
+export * from "./RunResult";
+export * from "./Checkpoint";
+export * from "./LoopDetector";
+export * from "./Approvals";
 export * from "./LLMConvergenceChecker";
\ No newline at end of file
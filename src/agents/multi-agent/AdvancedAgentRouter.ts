@@ -1,8 +1,9 @@
 // src/multi-agent/AdvancedAgentRouter.ts
 
-import { Agent } from "../Agent";
+import { Agent, AgentRunOptions } from "../Agent";
 import { AgentRouter } from "./AgentRouter";
-import { OpenAIChat } from "../../LLMs/OpenAIChat";
+import { ChatModel, SamplingOptions } from "../../LLMs/ChatModel";
+import { callStructured } from "../../LLMs/StructuredOutput";
 import { DebugLogger } from "../../utils/DebugLogger";
 
 /**
@@ -23,6 +24,19 @@ export interface RouterOptions {
   debug?: boolean;
   fallbackIndex?: number;
   confidenceThreshold?: number;
+
+  /**
+   * Model used for LLM-based routing. Providing one implies useLLM.
+   * It can be shared with the agents, since routing calls override its sampling
+   * (see routerSampling). If useLLM is set without a model, the fallback agent's model is used
+   * (the constructor throws if there is no fallback agent).
+   */
+  routerModel?: ChatModel;
+
+  /**
+   * Per-call sampling for routing calls (default: temperature 0, for consistent routing).
+   */
+  routerSampling?: SamplingOptions;
 }
 
 /**
@@ -37,13 +51,28 @@ export interface RoutingMetadata {
   reasoning?: string;
 }
 
+/**
+ * JSON Schema for the router model's decision
+ */
+const ROUTING_SCHEMA = {
+  type: "object",
+  properties: {
+    selectedAgent: { type: "integer" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    reasoning: { type: "string" }
+  },
+  required: ["selectedAgent", "confidence", "reasoning"],
+  additionalProperties: false
+};
+
 /**
  * AdvancedAgentRouter extends AgentRouter with LLM-powered routing
  * and capability-based agent selection.
  */
 export class AdvancedAgentRouter extends AgentRouter {
   private capabilities: Map<number, AgentCapability>;
-  private routerLLM?: OpenAIChat;
+  private routerLLM?: ChatModel;
+  private routerSampling: SamplingOptions;
   private logger: DebugLogger;
   private fallbackIndex: number;
   private confidenceThreshold: number;
@@ -67,19 +96,25 @@ export class AdvancedAgentRouter extends AgentRouter {
     this.fallbackIndex = options.fallbackIndex ?? agents.length - 1;
     this.confidenceThreshold = options.confidenceThreshold ?? 0.7;
 
-    if (options.useLLM) {
-      this.routerLLM = new OpenAIChat({
-        apiKey: "YOUR-API-KEY",
-        model: "gpt-4o-mini",
-        temperature: 0.2, // Lower temperature for more consistent routing
-      });
+    this.routerSampling = options.routerSampling ?? { temperature: 0 };
+
+    if (options.routerModel) {
+      this.routerLLM = options.routerModel;
+    } else if (options.useLLM) {
+      const fallbackAgent = agents[this.fallbackIndex];
+      if (!fallbackAgent) {
+        throw new Error(
+          `AdvancedAgentRouter: useLLM needs a routerModel or a fallback agent (no agent at index ${this.fallbackIndex}).`
+        );
+      }
+      this.routerLLM = fallbackAgent.getModel();
     }
   }
 
   /**
    * Override the base run method to add routing logic and logging
    */
-  public async run(query: string): Promise<string> {
+  public async run(query: string, runOptions?: AgentRunOptions): Promise<string> {
     const routingResult = await this.routeQuery(query);
     
     this.logger.log("Routing decision", {
@@ -101,10 +136,10 @@ export class AdvancedAgentRouter extends AgentRouter {
     // Use fallback if confidence is too low
     if (routingResult.confidence < this.confidenceThreshold) {
       this.logger.warn(`Low confidence routing (${routingResult.confidence}), using fallback agent`);
-      return this.agents[this.fallbackIndex].run(query);
+      return this.agents[this.fallbackIndex].run(query, runOptions);
     }
 
-    return this.agents[routingResult.agentIndex].run(query);
+    return this.agents[routingResult.agentIndex].run(query, runOptions);
   }
 
   /**
@@ -195,37 +230,21 @@ private async routeWithLLM(query: string): Promise<{
   }> {
     try {
       const prompt = this.buildRoutingPrompt(query);
-      const response = await this.routerLLM!.call([{
+      const parsed = await callStructured<{
+        selectedAgent: number;
+        confidence: number;
+        reasoning: string;
+      }>(this.routerLLM!, [{
         role: "user",
         content: prompt
-      }]);
+      }], ROUTING_SCHEMA, { name: "routing_decision", sampling: this.routerSampling });
   
-      // Clean the response - remove any markdown formatting or extra text
-      const cleanedResponse = response.replace(/```json\n?|\n?```/g, '').trim();
-      
-      try {
-        const parsed = JSON.parse(cleanedResponse);
-        
-        // Validate the parsed response
-        if (typeof parsed.selectedAgent !== 'number' ||
-            typeof parsed.confidence !== 'number' ||
-            typeof parsed.reasoning !== 'string') {
-          throw new Error('Invalid response format');
-        }
-  
-        // Ensure values are within expected ranges
-        return {
-          agentIndex: Math.min(Math.max(0, parsed.selectedAgent), this.agents.length - 1),
-          confidence: Math.min(Math.max(0, parsed.confidence), 1),
-          reasoning: parsed.reasoning
-        };
-      } catch (parseError) {
-        this.logger.error('Failed to parse LLM response', {
-          response: cleanedResponse,
-          error: parseError
-        });
-        throw new Error(`Failed to parse LLM response: ${(parseError as Error).message}`);
-      }
+      // Ensure values are within expected ranges
+      return {
+        agentIndex: Math.min(Math.max(0, parsed.selectedAgent), this.agents.length - 1),
+        confidence: Math.min(Math.max(0, parsed.confidence), 1),
+        reasoning: parsed.reasoning
+      };
     } catch (error) {
       this.logger.error('LLM routing error', error);
       throw error;
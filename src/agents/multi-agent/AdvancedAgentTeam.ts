@@ -1,10 +1,11 @@
 // src/multi-agent/AdvancedAgentTeam.ts
 
 import { Agent } from "../Agent";
-import { TeamHooks } from "./AgentTeam";
+import { TeamHooks, TeamOptions, TeamRunOptions } from "./AgentTeam";
 import { Memory } from "../../memory/Memory";
 import { AgentTeam } from "./AgentTeam";
 import { DebugLogger } from '../../utils/DebugLogger';
+import { isCancellation, throwIfAborted } from "../../utils/Cancellation";
 
 /**
  * AdvancedTeamHooks extends the basic TeamHooks with:
@@ -52,7 +53,7 @@ export interface AgentContribution {
  * 2) Team configuration with roles and specializations
  * 3) Debug flag for verbose logging
  */
-export interface AdvancedTeamOptions {
+export interface AdvancedTeamOptions extends TeamOptions {
   sharedMemory?: Memory;
   teamConfig?: TeamConfiguration;
   hooks?: AdvancedTeamHooks;
@@ -76,7 +77,7 @@ export class AdvancedAgentTeam extends AgentTeam {
     agents: Agent[],
     options: AdvancedTeamOptions
   ) {
-    super(name, agents);
+    super(name, agents, { maxCostUsd: options.maxCostUsd });
     this.sharedMemory = options.sharedMemory;
     this.teamConfig = options.teamConfig;
     this.hooks = options.hooks;
@@ -262,7 +263,8 @@ export class AdvancedAgentTeam extends AgentTeam {
     userQuery: string,
     maxRounds: number,
     isConverged: (lastMsg: string) => Promise<boolean> | boolean,
-    requireAllAgents: boolean = false
+    requireAllAgents: boolean = false,
+    options?: TeamRunOptions
   ): Promise<string> {
     if (requireAllAgents) {
       this.logger.log("requireAllAgents is true. Waiting for all agents to contribute.");
@@ -276,6 +278,8 @@ export class AdvancedAgentTeam extends AgentTeam {
       teamSize: this.agents.length
     });
 
+    this.startRun(options?.signal);
+
     // Track contributions per round
     const contributions = new Map<string, AgentContribution>();
     let currentRound = 0;
@@ -295,6 +299,12 @@ export class AdvancedAgentTeam extends AgentTeam {
 
       // Each agent takes a turn in the current round
       for (const agent of this.agents) {
+        throwIfAborted(this.runSignal);
+        if (this.isBudgetExhausted()) {
+          this.logger.warn(`Team cost limit ($${this.maxCostUsd}) reached, skipping remaining turns`);
+          break;
+        }
+
         this.logger.log(`Round ${currentRound}: ${agent.name}'s turn`);
 
         if (this.hooks?.onAgentStart) {
@@ -305,7 +315,7 @@ export class AdvancedAgentTeam extends AgentTeam {
         const agentQuery = this.getSpecializedQuery(agent, userQuery);
         
         try {
-          const agentOutput = await agent.run(agentQuery);
+          const agentOutput = await this.runAgent(agent, agentQuery, this.hooks);
           this.logger.log(`${agent.name} response received`, { agentOutput });
 
           // Check if this output meets convergence criteria
@@ -344,6 +354,9 @@ export class AdvancedAgentTeam extends AgentTeam {
             }
           }
         } catch (error) {
+          if (isCancellation(error)) {
+            throw error;
+          }
           this.logger.error(`Error during ${agent.name}'s turn`, error);
           if (this.hooks?.onError) {
             this.hooks.onError(agent.name, error as Error);
@@ -362,6 +375,12 @@ export class AdvancedAgentTeam extends AgentTeam {
         this.hooks.onRoundEnd(currentRound, contributions);
       }
 
+      // Stop the rounds once the team budget is spent
+      if (this.isBudgetExhausted()) {
+        this.logger.warn(`Team cost limit reached after round ${currentRound} ($${this.getCost().toFixed(4)} spent)`);
+        break;
+      }
+
       // Break if we found a final answer
       if (finalAnswer) {
         this.logger.log("Convergence achieved", { finalAnswer });
@@ -381,6 +400,8 @@ export class AdvancedAgentTeam extends AgentTeam {
       }
     }
 
+    throwIfAborted(this.runSignal);
+
     // If no final answer was reached, combine all contributions
     if (!finalAnswer) {
       this.logger.warn("No convergence reached, combining all contributions");
@@ -1,6 +1,6 @@
 // src/multi-agent/AgentRouter.ts
 
-import { Agent } from "../Agent";
+import { Agent, AgentRunOptions } from "../Agent";
 
 /**
  * A simple interface for how we decide which Agent to call for a user query.
@@ -17,9 +17,9 @@ export class AgentRouter {
     this.routingFn = routingFn;
   }
 
-  public async run(query: string): Promise<string> {
+  public async run(query: string, runOptions?: AgentRunOptions): Promise<string> {
     const idx = await this.routingFn(query);
     const agent = this.agents[idx];
-    return agent.run(query);
+    return agent.run(query, runOptions);
   }
 }
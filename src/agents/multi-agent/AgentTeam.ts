@@ -1,14 +1,36 @@
 // src/multi-agent/AgentTeam.ts
 
 import { Agent } from "../Agent";
+import { TokenUsage, emptyUsage, addUsage } from "../../LLMs/TokenUsage";
+import { CostBudget } from "../../LLMs/Pricing";
+import { throwIfAborted } from "../../utils/Cancellation";
 
 export interface TeamHooks {
     onAgentStart?: (agentName: string, input: string) => void;
     onAgentEnd?: (agentName: string, output: string) => void;
     onError?: (agentName: string, error: Error) => void;
     onFinal?: (outputs: string[]) => void;
+    onUsage?: (agentName: string, usage: TokenUsage, teamTotal: TokenUsage) => void;
 }  
 
+/**
+ * Options shared by AgentTeam and its subclasses.
+ * - maxCostUsd: dollar budget for one team run across all agents (-1 = unlimited).
+ *   Agents stop mid-run once it is exhausted, and no further agents are started.
+ */
+export interface TeamOptions {
+    maxCostUsd?: number;
+}
+
+/**
+ * Per-run options for the team run methods.
+ * - signal: cancels the team run; running agents stop immediately, no further agents
+ *   are started, and the run rejects with a CancelledError.
+ */
+export interface TeamRunOptions {
+    signal?: AbortSignal;
+}
+
 /**
  * AgentTeam: orchestrates multiple agents. 
  * Could be parallel calls or passing context from one to the next.
@@ -16,10 +38,64 @@ export interface TeamHooks {
 export class AgentTeam {
     protected agents: Agent[];
     protected name: string;
+    protected usage: TokenUsage = emptyUsage();
+    protected maxCostUsd: number;
+    protected budget: CostBudget;
+    protected runSignal?: AbortSignal;
   
-    constructor(name: string, agents: Agent[]) {
+    constructor(name: string, agents: Agent[], options?: TeamOptions) {
       this.name = name;
       this.agents = agents;
+      this.maxCostUsd = options?.maxCostUsd ?? -1;
+      this.budget = new CostBudget(this.maxCostUsd);
+    }
+
+    /**
+     * Dollar cost across all agents for the most recent team run.
+     */
+    public getCost(): number {
+      return this.budget.spent;
+    }
+
+    /**
+     * True once the team's dollar budget for the current run is used up.
+     */
+    public isBudgetExhausted(): boolean {
+      return this.budget.isExhausted();
+    }
+
+    /**
+     * Resets per-run usage and cost tracking, and records the run's abort signal.
+     */
+    protected startRun(signal?: AbortSignal): void {
+      this.usage = emptyUsage();
+      this.budget = new CostBudget(this.maxCostUsd);
+      this.runSignal = signal;
+      throwIfAborted(signal);
+    }
+
+    /**
+     * Token usage aggregated across all agents for the most recent team run.
+     */
+    public getUsage(): TokenUsage {
+      return { ...this.usage };
+    }
+
+    /**
+     * Runs a single agent and adds its run's token usage to the team total,
+     * even if the agent throws. Throws CancelledError if the team run was cancelled.
+     */
+    protected async runAgent(agent: Agent, input: string, hooks?: TeamHooks): Promise<string> {
+      throwIfAborted(this.runSignal);
+      try {
+        return await agent.run(input, { costBudget: this.budget, signal: this.runSignal });
+      } finally {
+        const agentUsage = agent.getUsage();
+        this.usage = addUsage(this.usage, agentUsage);
+        if (hooks?.onUsage) {
+          hooks.onUsage(agent.name, agentUsage, { ...this.usage });
+        }
+      }
     }
   
     /**
@@ -28,16 +104,18 @@ export class AgentTeam {
      * 
      * @param query  The user input or initial query.
      * @param hooks  Optional TeamHooks for debugging/logging steps and errors.
+     * @param options  Optional TeamRunOptions (e.g. an AbortSignal to cancel the run).
      * @returns      An array of output strings from each agent.
      */
-    public async runInParallel(query: string, hooks?: TeamHooks): Promise<string[]> {
+    public async runInParallel(query: string, hooks?: TeamHooks, options?: TeamRunOptions): Promise<string[]> {
+        this.startRun(options?.signal);
         const promises = this.agents.map(async (agent) => {
           if (hooks?.onAgentStart) {
             hooks.onAgentStart(agent.name, query);
           }
 
           try {
-            const output = await agent.run(query);
+            const output = await this.runAgent(agent, query, hooks);
             if (hooks?.onAgentEnd) {
                 hooks.onAgentEnd(agent.name, output);
             }
@@ -54,6 +132,7 @@ export class AgentTeam {
         });
 
         const results = await Promise.all(promises);
+        throwIfAborted(this.runSignal);
         if (hooks?.onFinal) {
             hooks.onFinal(results);
         }
@@ -67,18 +146,25 @@ export class AgentTeam {
      * 
      * @param query  The user input or initial query.
      * @param hooks  Optional TeamHooks for debugging/logging steps and errors.
+     * @param options  Optional TeamRunOptions (e.g. an AbortSignal to cancel the run).
      * @returns      The final output string after all agents have processed it.
      */
-    public async runSequential(query: string, hooks?: TeamHooks): Promise<string> {
+    public async runSequential(query: string, hooks?: TeamHooks, options?: TeamRunOptions): Promise<string> {
+      this.startRun(options?.signal);
       let currentInput = query;
   
       for (const agent of this.agents) {
+        throwIfAborted(this.runSignal);
+        if (this.isBudgetExhausted()) {
+          break; // Team cost limit reached, return the last output
+        }
+
         if (hooks?.onAgentStart) {
             hooks.onAgentStart(agent.name, currentInput);
         }
 
         try {
-          const output = await agent.run(currentInput);
+          const output = await this.runAgent(agent, currentInput, hooks);
           if (hooks?.onAgentEnd) {
             hooks.onAgentEnd(agent.name, output);
           }
@@ -94,6 +180,7 @@ export class AgentTeam {
         }
       }
   
+      throwIfAborted(this.runSignal);
       if (hooks?.onFinal) {
         hooks.onFinal([currentInput]);
       }
@@ -106,18 +193,20 @@ export class AgentTeam {
      * 
      * @param query  The user input or initial query.
      * @param hooks  Optional TeamHooks for debugging/logging steps and errors.
+     * @param options  Optional TeamRunOptions (e.g. an AbortSignal to cancel the run).
      * @returns      An array of results, each containing success status and output.
      *               For successful agents, {success: true, output: string}.
      *               For failed agents, {success: false, output: error message}.
      */
-    public async runInParallelSafe(query: string, hooks?: TeamHooks): Promise<{ success: boolean; output: string }[]> {
+    public async runInParallelSafe(query: string, hooks?: TeamHooks, options?: TeamRunOptions): Promise<{ success: boolean; output: string }[]> {
+        this.startRun(options?.signal);
         const promises = this.agents.map(async (agent) => {
           if (hooks?.onAgentStart) {
             hooks.onAgentStart(agent.name, query);
           }
 
           try {
-            const out = await agent.run(query);
+            const out = await this.runAgent(agent, query, hooks);
             if (hooks?.onAgentEnd) {
                 hooks.onAgentEnd(agent.name, out);
             }
@@ -134,6 +223,7 @@ export class AgentTeam {
         });
 
         const results = await Promise.all(promises);
+        throwIfAborted(this.runSignal);
         if (hooks?.onFinal) {
             hooks.onFinal(results.map(r => r.output));
         }
@@ -148,20 +238,31 @@ export class AgentTeam {
      * @param stopOnError  If true, we stop executing further agents after the first error.
      *                     If false, we record the error and keep going with the next agent.
      * @param hooks        Optional TeamHooks for debugging/logging steps and errors.
+     * @param options      Optional TeamRunOptions (e.g. an AbortSignal to cancel the run).
      * @returns            An array of output strings from each agent in sequence.
      */
-    public async runSequentialSafe(query: string, stopOnError: boolean, hooks?: TeamHooks): Promise<string[]> {
+    public async runSequentialSafe(query: string, stopOnError: boolean, hooks?: TeamHooks, options?: TeamRunOptions): Promise<string[]> {
+        this.startRun(options?.signal);
         let outputs: string[] = [];
         let currentInput = query;
 
         for (const agent of this.agents) {
+            throwIfAborted(this.runSignal);
+            if (this.isBudgetExhausted()) {
+                outputs.push(`Skipped agent ${agent.name}: team cost limit ($${this.maxCostUsd.toFixed(4)}) reached.`);
+                if (stopOnError) {
+                    break;
+                }
+                continue;
+            }
+
             // onAgentStart hook
             if (hooks?.onAgentStart) {
                 hooks.onAgentStart(agent.name, currentInput);
             }
 
             try {
-                const out = await agent.run(currentInput);
+                const out = await this.runAgent(agent, currentInput, hooks);
 
                 // onAgentEnd hook
                 if (hooks?.onAgentEnd) {
@@ -189,6 +290,8 @@ export class AgentTeam {
             }
         }
 
+        throwIfAborted(this.runSignal);
+
         // onFinal hook after the sequence completes
         if (hooks?.onFinal) {
             hooks.onFinal(outputs);
@@ -197,8 +300,8 @@ export class AgentTeam {
         return outputs;
     } 
   
-    public async aggregateResults(query: string): Promise<string> {
-      const results = await this.runInParallel(query);
+    public async aggregateResults(query: string, options?: TeamRunOptions): Promise<string> {
+      const results = await this.runInParallel(query, undefined, options);
       return results.join("\n---\n"); // Combine all results
     }
 }
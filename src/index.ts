@@ -1,5 +1,9 @@
 // src/index.ts
 export * from "./agents/Agent";
+export * from "./agents/RunResult";
+export * from "./agents/Checkpoint";
+export * from "./agents/LoopDetector";
+export * from "./agents/Approvals";
 export * from "./Workflow";
 export * from "./Planner";
 
@@ -16,16 +20,45 @@ export * from "./memory/LongTermMemory";
 export * from "./memory/CompositeMemory";
 export * from "./memory/ReflectionMemory";
 export * from "./memory/VectorStore";
+export * from "./memory/ContextBuilder";
 
 // Exports for LLMs
+export * from "./LLMs/ChatModel";
+export * from "./LLMs/ContentParts";
+export * from "./LLMs/LLMError";
+export * from "./LLMs/RetryPolicy";
+export * from "./LLMs/TokenUsage";
+export * from "./LLMs/TokenEstimator";
+export * from "./LLMs/Pricing";
+export * from "./LLMs/SSEParser";
+export * from "./LLMs/StructuredOutput";
+export * from "./LLMs/Embeddings";
+export * from "./LLMs/EmbeddingCache";
+export * from "./LLMs/LLMCache";
 export * from "./LLMs/OpenAIChat";
 export * from "./LLMs/OpenAIEmbeddings";
+export * from "./LLMs/OpenAIEndpoint";
+export * from "./LLMs/LocalEmbeddings";
+export * from "./LLMs/AnthropicChat";
+export * from "./LLMs/OllamaChat";
+export * from "./LLMs/CachingChatModel";
+export * from "./LLMs/MiddlewareChatModel";
+export * from "./LLMs/RequestScheduler";
+export * from "./LLMs/ScheduledChatModel";
+export * from "./LLMs/FallbackChatModel";
+export * from "./LLMs/CachingEmbeddings";
 
 // Exports for Tools
 export * from "./tools/Tools";
 export * from "./tools/ToolMetadata";
 export * from "./tools/ToolRequest";
+export * from "./tools/ToolSchema";
 export * from "./tools/DuckDuckGoTool";
 
+// Exports for utilities
+export * from "./utils/Cancellation";
+export * from "./utils/JsonSchema";
+export * from "./utils/Concurrency";
+
 // Exports for evaluators
 export * from "./Evaluators/SimpleEvaluator";
@@ -1,4 +1,4 @@
-import { Memory, ConversationMessage } from "./Memory";
+import { Memory, ConversationMessage, MemorySnapshot, snapshotMemory, restoreMemory } from "./Memory";
 
 export class CompositeMemory implements Memory {
   private memories: Memory[];
@@ -37,6 +37,24 @@ export class CompositeMemory implements Memory {
     }
   }
 
+  /**
+   * Snapshots every child memory; children without snapshot support contribute their getContext().
+   */
+  public async snapshot(): Promise<MemorySnapshot> {
+    const memories: MemorySnapshot[] = [];
+    for (const mem of this.memories) {
+      memories.push(await snapshotMemory(mem));
+    }
+    return { memories };
+  }
+
+  public async restore(snapshot: MemorySnapshot): Promise<void> {
+    const snapshots: MemorySnapshot[] = snapshot.memories ?? [];
+    for (let i = 0; i < this.memories.length; i++) {
+      await restoreMemory(this.memories[i], snapshots[i] ?? { messages: [] });
+    }
+  }
+
   private sortByTimestamp(messages: ConversationMessage[]): ConversationMessage[] {
     return messages.sort((a, b) => (a.metadata?.timestamp ?? 0) - (b.metadata?.timestamp ?? 0));
   }
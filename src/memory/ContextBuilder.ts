@@ -0,0 +1,273 @@
+// src/memory/ContextBuilder.ts
+
+import { ConversationMessage } from "./Memory";
+import { ChatModel, ChatCallOptions, ToolSchema } from "../LLMs/ChatModel";
+import { TokenEstimator, HeuristicTokenEstimator } from "../LLMs/TokenEstimator";
+
+/**
+ * What a prompt message is, for trimming purposes:
+ * - system: the first system message (the agent's system prompt); never trimmed
+ * - query: the run's query, the latest user message marked `metadata.source === "query"` (as
+ *   Agent does), else the latest user message; only truncated as a last resort
+ * - summary: summaries produced by SummarizingMemory (`metadata.source === "summary"`)
+ * - retrieved: messages recalled by LongTermMemory (`metadata.source === "retrieval"`)
+ * - history: everything else (earlier turns, tool calls and results, reflections)
+ */
+export type ContextCategory = "system" | "query" | "summary" | "retrieved" | "history";
+
+/**
+ * Options for ContextBuilder.
+ * - maxTokens: the model's context window (prompt + completion)
+ * - reserveTokens: kept free for the completion (default 4096, at most half of maxTokens)
+ * - estimator: token estimator (default: ~4 characters per token)
+ * - priorities: which content goes first when trimming, lowest first
+ *   (default history 1, retrieved 2, summary 3); within history the oldest goes first,
+ *   within retrieved the least relevant (last) goes first
+ * - keepRecentMessages: the latest history messages that are never dropped, only
+ *   truncated (default 4)
+ * - summarizer: if set, dropped history is replaced by a summary written by this model
+ * - maxSummaryTokens: room kept for that summary (default 300)
+ */
+export interface ContextBuilderOptions {
+  maxTokens: number;
+  reserveTokens?: number;
+  estimator?: TokenEstimator;
+  priorities?: Partial<Record<"summary" | "retrieved" | "history", number>>;
+  keepRecentMessages?: number;
+  summarizer?: ChatModel;
+  maxSummaryTokens?: number;
+}
+
+/**
+ * One piece of content removed or shortened to fit the budget.
+ */
+export interface TrimmedContent {
+  category: ContextCategory;
+  role: string;
+  action: "dropped" | "summarized" | "truncated";
+  tokensRemoved: number;
+  preview: string;
+}
+
+/**
+ * The outcome of ContextBuilder.build: the messages to send and what was trimmed.
+ */
+export interface ContextBuildReport {
+  messages: ConversationMessage[];
+  estimatedTokens: number;
+  budget: number;
+  trimmed: TrimmedContent[];
+}
+
+interface ContextItem {
+  message: ConversationMessage;
+  category: ContextCategory;
+  tokens: number;
+  index: number;
+}
+
+/** Truncation never shortens a message below this many tokens. */
+const MIN_TRUNCATED_TOKENS = 100;
+
+const TRIM_MARKER = "\n[... trimmed to fit the context window ...]\n";
+
+/**
+ * Fits a prompt (system prompt, tool schemas, retrieved memory and recent turns) into a
+ * token budget. When the estimate exceeds the budget, the lowest-priority content is
+ * dropped first (optionally summarized), then the largest remaining messages are truncated.
+ * An assistant message with native tool calls and its tool results are always dropped together.
+ */
+export class ContextBuilder {
+  private maxTokens: number;
+  private reserveTokens: number;
+  private estimator: TokenEstimator;
+  private priorities: Record<"summary" | "retrieved" | "history", number>;
+  private keepRecentMessages: number;
+  private summarizer?: ChatModel;
+  private maxSummaryTokens: number;
+
+  constructor(options: ContextBuilderOptions) {
+    this.maxTokens = options.maxTokens;
+    this.reserveTokens = Math.min(options.reserveTokens ?? 4096, Math.floor(options.maxTokens / 2));
+    this.estimator = options.estimator ?? new HeuristicTokenEstimator();
+    this.priorities = { history: 1, retrieved: 2, summary: 3, ...options.priorities };
+    this.keepRecentMessages = options.keepRecentMessages ?? 4;
+    this.summarizer = options.summarizer;
+    this.maxSummaryTokens = options.maxSummaryTokens ?? 300;
+  }
+
+  /**
+   * Returns the messages that fit the budget, in their original order.
+   * `tools` are the schemas sent alongside (native tool calling), which count against the budget.
+   * `callOptions` are passed to the summarizer call.
+   */
+  public async build(
+    messages: ConversationMessage[],
+    tools: ToolSchema[] = [],
+    callOptions?: ChatCallOptions
+  ): Promise<ContextBuildReport> {
+    const budget = this.maxTokens - this.reserveTokens - this.estimator.countTools(tools);
+    let items = this.classify(messages);
+    const trimmed: TrimmedContent[] = [];
+
+    const total = () => items.reduce((sum, item) => sum + item.tokens, 0);
+    if (total() <= budget) {
+      return { messages, estimatedTokens: total(), budget, trimmed };
+    }
+
+    // 1) Drop whole units, lowest priority first (leaving room for a summary if we can write one)
+    const target = this.summarizer ? budget - this.maxSummaryTokens : budget;
+    const dropped: ContextItem[] = [];
+    for (const unit of this.dropOrder(items)) {
+      if (total() <= target) break;
+      const ids = new Set(unit.map((item) => item.index));
+      items = items.filter((item) => !ids.has(item.index));
+      dropped.push(...unit);
+    }
+
+    // 2) Summarize dropped history into a single message
+    const droppedHistory = dropped.filter((item) => item.category === "history");
+    let summaryItem: ContextItem | undefined;
+    if (this.summarizer && droppedHistory.length > 0) {
+      summaryItem = await this.summarize(droppedHistory, callOptions);
+    }
+    for (const item of dropped) {
+      const summarized = summaryItem !== undefined && item.category === "history";
+      trimmed.push(this.report(item, summarized ? "summarized" : "dropped", item.tokens));
+    }
+    if (summaryItem) {
+      const systemCount = items.filter((item) => item.category === "system").length;
+      items.splice(systemCount, 0, summaryItem);
+    }
+
+    // 3) Truncate the largest remaining messages, the query only as a last resort
+    const truncatable = items
+      .filter((item) => item.category !== "system" && !(item.message.parts && item.message.parts.length > 0))
+      .sort((a, b) => (a.category === "query" ? 1 : 0) - (b.category === "query" ? 1 : 0) || b.tokens - a.tokens);
+    for (const item of truncatable) {
+      const overflow = total() - budget;
+      if (overflow <= 0) break;
+      const keep = Math.max(MIN_TRUNCATED_TOKENS, item.tokens - overflow);
+      if (keep >= item.tokens) continue;
+      const removed = this.truncate(item, keep);
+      if (removed > 0) trimmed.push(this.report(item, "truncated", removed));
+    }
+
+    return { messages: items.map((item) => item.message), estimatedTokens: total(), budget, trimmed };
+  }
+
+  private classify(messages: ConversationMessage[]): ContextItem[] {
+    const firstSystem = messages.findIndex((m) => m.role === "system");
+    // Corrective messages (loop detection, validation feedback) may follow the marked query
+    let lastUser = -1;
+    let lastQuery = -1;
+    messages.forEach((m, i) => {
+      if (m.role === "user") lastUser = i;
+      if (m.role === "user" && m.metadata?.source === "query") lastQuery = i;
+    });
+    const query = lastQuery !== -1 ? lastQuery : lastUser;
+
+    return messages.map((message, index) => {
+      let category: ContextCategory = "history";
+      if (index === firstSystem) category = "system";
+      else if (index === query) category = "query";
+      else if (message.metadata?.source === "summary") category = "summary";
+      else if (message.metadata?.source === "retrieval") category = "retrieved";
+      return { message, category, index, tokens: this.estimator.countMessages([message]) };
+    });
+  }
+
+  /**
+   * Droppable units in the order they should go. A unit is a single message, or an assistant
+   * message with native tool calls together with its tool results.
+   */
+  private dropOrder(items: ContextItem[]): ContextItem[][] {
+    const units: ContextItem[][] = [];
+    const claimed = new Set<number>();
+
+    for (const item of items) {
+      if (claimed.has(item.index)) continue;
+      const unit = [item];
+      const callIds = new Set((item.message.toolCalls ?? []).map((c) => c.id));
+      if (callIds.size > 0) {
+        for (const other of items) {
+          if (other.message.role === "tool" && other.message.toolCallId && callIds.has(other.message.toolCallId)) {
+            unit.push(other);
+            claimed.add(other.index);
+          }
+        }
+      }
+      units.push(unit);
+    }
+
+    const history = items.filter((item) => item.category === "history");
+    const recent = this.keepRecentMessages > 0 ? history.slice(-this.keepRecentMessages) : [];
+    const protectedIndexes = new Set(recent.map((item) => item.index));
+
+    const droppable = units.filter((unit) =>
+      unit.every((item) => item.category !== "system" && item.category !== "query" && !protectedIndexes.has(item.index))
+    );
+
+    const priorityOf = (unit: ContextItem[]) =>
+      Math.max(...unit.map((item) => this.priorities[item.category as "summary" | "retrieved" | "history"]));
+    // Oldest first, except retrieved messages, which are ordered most relevant first
+    const positionOf = (unit: ContextItem[]) =>
+      unit[0].category === "retrieved" ? -unit[0].index : unit[0].index;
+
+    return droppable.sort((a, b) => priorityOf(a) - priorityOf(b) || positionOf(a) - positionOf(b));
+  }
+
+  private async summarize(items: ContextItem[], callOptions?: ChatCallOptions): Promise<ContextItem> {
+    const transcript = items
+      .sort((a, b) => a.index - b.index)
+      .map((item) => `${item.message.role.toUpperCase()}: ${item.message.content}`)
+      .join("\n");
+
+    const summary = await this.summarizer!.call(
+      [
+        {
+          role: "system",
+          content: `Summarize this earlier part of a conversation in at most ${this.maxSummaryTokens} tokens. Keep facts, decisions and tool results that may matter later.`,
+        },
+        { role: "user", content: transcript },
+      ],
+      callOptions
+    );
+
+    const message: ConversationMessage = {
+      role: "system",
+      content: `Summary of earlier conversation (trimmed to fit the context window):\n${summary}`,
+      metadata: { source: "summary" },
+    };
+    return { message, category: "summary", index: -1, tokens: this.estimator.countMessages([message]) };
+  }
+
+  /**
+   * Shortens a message to about `keepTokens`, keeping its beginning and end.
+   * Returns the number of tokens removed.
+   */
+  private truncate(item: ContextItem, keepTokens: number): number {
+    const content = item.message.content;
+    // The marker counts against the kept tokens, so the result stays within the budget
+    const keepText = Math.max(0, keepTokens - this.estimator.countText(TRIM_MARKER));
+    const keepChars = Math.floor(content.length * (keepText / item.tokens));
+    if (keepChars >= content.length) return 0;
+
+    const head = content.slice(0, Math.ceil(keepChars * 0.7));
+    const tail = content.slice(content.length - Math.floor(keepChars * 0.3));
+    const before = item.tokens;
+    item.message = { ...item.message, content: `${head}${TRIM_MARKER}${tail}` };
+    item.tokens = this.estimator.countMessages([item.message]);
+    return before - item.tokens;
+  }
+
+  private report(item: ContextItem, action: TrimmedContent["action"], tokensRemoved: number): TrimmedContent {
+    return {
+      category: item.category,
+      role: item.message.role,
+      action,
+      tokensRemoved,
+      preview: item.message.content.slice(0, 80),
+    };
+  }
+}
@@ -1,11 +1,17 @@
-import { Memory, ConversationMessage } from "./Memory";
+import { Memory, ConversationMessage, MemorySnapshot } from "./Memory";
 import { InMemoryVectorStore } from "./VectorStore";
-import { OpenAIEmbeddings } from "../LLMs/OpenAIEmbeddings";
+import { Embeddings, embedMany } from "../LLMs/Embeddings";
+import { EmbeddingCache } from "../LLMs/EmbeddingCache";
 
+/**
+ * - embeddingCache: cache for message and query vectors; defaults to a private in-memory
+ *   EmbeddingCache, pass a shared (optionally disk-backed) one to reuse vectors, or false to disable
+ */
 export interface LongTermMemoryOptions {
-  embeddings: OpenAIEmbeddings;
+  embeddings: Embeddings;
   maxMessages?: number; 
   topK?: number;        
+  embeddingCache?: EmbeddingCache | false;
 }
 
 /**
@@ -13,33 +19,52 @@ export interface LongTermMemoryOptions {
  */
 export class LongTermMemory implements Memory {
   private vectorStore: InMemoryVectorStore;
-  private embeddings: OpenAIEmbeddings;
+  private embeddings: Embeddings;
   private maxMessages: number;
   private topK: number;
+  private embeddingCache?: EmbeddingCache;
 
   constructor(options: LongTermMemoryOptions) {
     this.embeddings = options.embeddings;
+    if (options.embeddingCache !== false) {
+      this.embeddingCache = options.embeddingCache ?? new EmbeddingCache();
+    }
     this.vectorStore = new InMemoryVectorStore();
     this.maxMessages = options.maxMessages ?? 1000;
     this.topK = options.topK ?? 3;
   }
 
   public async addMessage(message: ConversationMessage): Promise<void> {
-    const id = `msg-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
-    const embedding = await this.embeddings.embed(message.content);
+    await this.addMessages([message]);
+  }
+
+  /**
+   * Adds several messages (e.g. document chunks during ingestion), embedding them
+   * in batches and skipping texts whose vectors are already cached.
+   */
+  public async addMessages(messages: ConversationMessage[]): Promise<void> {
+    // Nothing to embed (e.g. an assistant message that only carries tool calls)
+    const toEmbed = messages.filter((m) => m.content.trim());
+    if (toEmbed.length === 0) {
+      return;
+    }
 
-    this.vectorStore.addItem({
-      id,
-      content: message.content,
-      embedding,
-      metadata: {
-        role: message.role,
-        timestamp: Date.now(),
-      }
+    const embeddings = await this.embedTexts(toEmbed.map((m) => m.content));
+
+    toEmbed.forEach((message, i) => {
+      this.vectorStore.addItem({
+        id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+        content: message.content,
+        embedding: embeddings[i],
+        metadata: {
+          role: message.role,
+          timestamp: Date.now(),
+        }
+      });
     });
 
     const allItems = this.vectorStore.getAllItems();
-    if (allItems.length > this.maxMessages) {
+    while (allItems.length > this.maxMessages) {
       allItems.shift();
     }
   }
@@ -56,16 +81,37 @@ export class LongTermMemory implements Memory {
     if (!query.trim()) {
       return [];
     }
-    const embedding = await this.embeddings.embed(query);
+    const [embedding] = await this.embedTexts([query]);
     const results = this.vectorStore.similaritySearch(embedding, this.topK);
     return results.map((r) => ({
       role: "assistant",
       content: r.content,
       timestamp: r.metadata?.timestamp,
+      metadata: { source: "retrieval", timestamp: r.metadata?.timestamp },
     }));
   }
 
+  private embedTexts(texts: string[]): Promise<number[][]> {
+    return this.embeddingCache
+      ? this.embeddingCache.embedAll(this.embeddings, texts)
+      : embedMany(this.embeddings, texts);
+  }
+
   public async clear(): Promise<void> {
     this.vectorStore = new InMemoryVectorStore();
   }
+
+  /**
+   * Includes the stored vectors, so restoring does not re-embed anything.
+   */
+  public async snapshot(): Promise<MemorySnapshot> {
+    return { items: [...this.vectorStore.getAllItems()] };
+  }
+
+  public async restore(snapshot: MemorySnapshot): Promise<void> {
+    this.vectorStore = new InMemoryVectorStore();
+    for (const item of snapshot.items ?? []) {
+      this.vectorStore.addItem(item);
+    }
+  }
 }
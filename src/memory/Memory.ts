@@ -1,4 +1,7 @@
-export type MemoryRole = "system" | "user" | "assistant" | "reflection";
+import { ToolCall } from "../LLMs/ChatModel";
+import { ContentPart } from "../LLMs/ContentParts";
+
+export type MemoryRole = "system" | "user" | "assistant" | "reflection" | "tool";
 
 /**
  * A single message in the conversation or agent's reasoning process.
@@ -7,6 +10,18 @@ export interface ConversationMessage {
   role: MemoryRole;
   content: string;
   metadata?: any;
+
+  /** Native tool calls requested by the assistant in this message. */
+  toolCalls?: ToolCall[];
+
+  /** For role "tool": the id of the tool call this message answers. */
+  toolCallId?: string;
+
+  /**
+   * Multimodal content (text, images, files). `content` then holds the text rendering,
+   * which text-only memories such as LongTermMemory and SummarizingMemory use.
+   */
+  parts?: ContentPart[];
 }
 
 /**
@@ -28,4 +43,42 @@ export interface Memory {
   getContextForPrompt(query: string): Promise<ConversationMessage[]>;
 
   clear(): Promise<void>;
+
+  /**
+   * (Optional) Returns the memory's contents as JSON-serializable data, e.g. for an
+   * Agent checkpoint. Memories without it are checkpointed through getContext().
+   */
+  snapshot?(): Promise<MemorySnapshot>;
+
+  /**
+   * (Optional) Replaces the memory's contents with a snapshot taken by `snapshot()`.
+   */
+  restore?(snapshot: MemorySnapshot): Promise<void>;
+}
+
+/**
+ * JSON-serializable memory contents, as produced by Memory.snapshot.
+ */
+export type MemorySnapshot = Record<string, any>;
+
+/**
+ * Snapshots any memory: through `snapshot()` if it has one, else as its getContext() messages.
+ */
+export async function snapshotMemory(memory: Memory): Promise<MemorySnapshot> {
+  return memory.snapshot ? memory.snapshot() : { messages: [...(await memory.getContext())] };
+}
+
+/**
+ * Restores a snapshot taken by snapshotMemory: through `restore()` if the memory has one,
+ * else by clearing it and re-adding the snapshot's messages.
+ */
+export async function restoreMemory(memory: Memory, snapshot: MemorySnapshot): Promise<void> {
+  if (memory.restore) {
+    await memory.restore(snapshot);
+    return;
+  }
+  await memory.clear();
+  for (const message of snapshot.messages ?? []) {
+    await memory.addMessage(message);
+  }
 }
@@ -1,4 +1,4 @@
-import { Memory, ConversationMessage } from "./Memory";
+import { Memory, ConversationMessage, MemorySnapshot } from "./Memory";
 
 export class ReflectionMemory implements Memory {
   private reflections: ConversationMessage[] = [];
@@ -26,4 +26,12 @@ export class ReflectionMemory implements Memory {
   async clear(): Promise<void> {
     this.reflections = [];
   }
+
+  async snapshot(): Promise<MemorySnapshot> {
+    return { reflections: [...this.reflections] };
+  }
+
+  async restore(snapshot: MemorySnapshot): Promise<void> {
+    this.reflections = [...(snapshot.reflections ?? [])];
+  }
 }
@@ -1,4 +1,4 @@
-import { Memory, ConversationMessage } from "./Memory";
+import { Memory, ConversationMessage, MemorySnapshot } from "./Memory";
 
 export class ShortTermMemory implements Memory {
   private messages: ConversationMessage[] = [];
@@ -30,4 +30,12 @@ export class ShortTermMemory implements Memory {
   async clear(): Promise<void> {
     this.messages = [];
   }
+
+  async snapshot(): Promise<MemorySnapshot> {
+    return { messages: [...this.messages] };
+  }
+
+  async restore(snapshot: MemorySnapshot): Promise<void> {
+    this.messages = [...(snapshot.messages ?? [])];
+  }
 }
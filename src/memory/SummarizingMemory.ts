@@ -1,9 +1,9 @@
-import { Memory, ConversationMessage } from "./Memory";
-import { OpenAIChat } from "../LLMs/OpenAIChat";
+import { Memory, ConversationMessage, MemorySnapshot } from "./Memory";
+import { ChatModel } from "../LLMs/ChatModel";
 
 interface SummarizingMemoryOptions {
   threshold: number;
-  summarizerModel: OpenAIChat;
+  summarizerModel: ChatModel;
   summaryPrompt?: string;
   maxSummaryTokens?: number;
   hierarchical?: boolean; // If true, store multiple chunk-level summaries
@@ -15,7 +15,7 @@ interface SummarizingMemoryOptions {
 export class SummarizingMemory implements Memory {
   private messages: ConversationMessage[] = [];
   private threshold: number; 
-  private summarizerModel: OpenAIChat; 
+  private summarizerModel: ChatModel; 
   private summaryPrompt: string; 
   private maxSummaryTokens: number;
   private hierarchical: boolean;
@@ -55,6 +55,15 @@ export class SummarizingMemory implements Memory {
     this.chunkSummaries = [];
   }
 
+  public async snapshot(): Promise<MemorySnapshot> {
+    return { messages: [...this.messages], chunkSummaries: [...this.chunkSummaries] };
+  }
+
+  public async restore(snapshot: MemorySnapshot): Promise<void> {
+    this.messages = [...(snapshot.messages ?? [])];
+    this.chunkSummaries = [...(snapshot.chunkSummaries ?? [])];
+  }
+
   private async summarizeOlderMessages(): Promise<void> {
     // We'll keep the most recent 3 messages unsummarized
     const keepCount = 3;
@@ -75,6 +84,7 @@ export class SummarizingMemory implements Memory {
     const summaryMessage: ConversationMessage = {
       role: "assistant",
       content: `Summary of earlier discussion:\n${summary}`,
+      metadata: { source: "summary" },
     };
 
     this.messages = [summaryMessage, ...recentMessages];
@@ -104,6 +114,7 @@ export class SummarizingMemory implements Memory {
       {
         role: "assistant",
         content: `Chunk summary: ${summary}`,
+        metadata: { source: "summary" },
       },
       ...remainder,
     ];
@@ -38,6 +38,7 @@ export interface VectorStoreItem {
   
   /**
    * Computes cosine similarity between two vectors.
+   * Zero vectors (e.g. a local embedding of a text made only of stop words) score 0.
    */
   export function cosineSimilarity(a: number[], b: number[]): number {
     if (a.length !== b.length) {
@@ -51,6 +52,9 @@ export interface VectorStoreItem {
       normA += a[i] ** 2;
       normB += b[i] ** 2;
     }
+    if (normA === 0 || normB === 0) {
+      return 0;
+    }
     return dot / (Math.sqrt(normA) * Math.sqrt(normB));
   }
   
\ No newline at end of file
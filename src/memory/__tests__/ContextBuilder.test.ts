@@ -0,0 +1,178 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ContextBuilder, ContextBuilderOptions } from "../ContextBuilder";
+import { ConversationMessage } from "../Memory";
+import { TokenEstimator } from "../../LLMs/TokenEstimator";
+import { ChatModel } from "../../LLMs/ChatModel";
+
+/**
+ * One token per character, so budgets are easy to read.
+ */
+const charEstimator: TokenEstimator = {
+  countText: (text) => text.length,
+  countMessages: (messages) => messages.reduce((sum, m) => sum + m.content.length, 0),
+  countTools: () => 0,
+};
+
+function builder(maxTokens: number, options: Partial<ContextBuilderOptions> = {}): ContextBuilder {
+  return new ContextBuilder({
+    maxTokens,
+    reserveTokens: 0,
+    estimator: charEstimator,
+    keepRecentMessages: 0,
+    ...options,
+  });
+}
+
+function text(label: string, length: number): string {
+  return label + ".".repeat(length - label.length);
+}
+
+const system: ConversationMessage = { role: "system", content: text("S", 10) };
+const query: ConversationMessage = { role: "user", content: text("Q", 10), metadata: { source: "query" } };
+
+test("returns the messages unchanged when they fit", async () => {
+  const messages = [system, { role: "assistant" as const, content: text("A", 50) }, query];
+  const report = await builder(70).build(messages);
+  assert.equal(report.messages, messages);
+  assert.equal(report.estimatedTokens, 70);
+  assert.deepEqual(report.trimmed, []);
+});
+
+test("drops history oldest first, then retrieved least relevant first, then summaries", async () => {
+  const messages: ConversationMessage[] = [
+    system,
+    { role: "system", content: text("Summary", 50), metadata: { source: "summary" } },
+    { role: "assistant", content: text("R1", 50), metadata: { source: "retrieval" } },
+    { role: "assistant", content: text("R2", 50), metadata: { source: "retrieval" } },
+    { role: "user", content: text("H1", 50) },
+    { role: "assistant", content: text("H2", 50) },
+    query,
+  ];
+
+  const report = await builder(20).build(messages);
+  assert.deepEqual(
+    report.trimmed.map((t) => [t.category, t.action, t.preview.replace(/\.+$/, "")]),
+    [
+      ["history", "dropped", "H1"],
+      ["history", "dropped", "H2"],
+      ["retrieved", "dropped", "R2"],
+      ["retrieved", "dropped", "R1"],
+      ["summary", "dropped", "Summary"],
+    ]
+  );
+  assert.deepEqual(report.messages, [system, query]);
+
+  const partial = await builder(170).build(messages);
+  assert.deepEqual(
+    partial.messages.map((m) => m.content.replace(/\.+$/, "")),
+    ["S", "Summary", "R1", "R2", "Q"]
+  );
+});
+
+test("follows custom priorities and keeps the most recent history", async () => {
+  const messages: ConversationMessage[] = [
+    system,
+    { role: "assistant", content: text("R1", 50), metadata: { source: "retrieval" } },
+    { role: "user", content: text("H1", 50) },
+    { role: "assistant", content: text("H2", 50) },
+    query,
+  ];
+  const report = await builder(70, { priorities: { retrieved: 0 }, keepRecentMessages: 1 }).build(messages);
+  assert.deepEqual(
+    report.messages.map((m) => m.content.replace(/\.+$/, "")),
+    ["S", "H2", "Q"]
+  );
+});
+
+test("drops a tool call together with its results", async () => {
+  const messages: ConversationMessage[] = [
+    system,
+    { role: "assistant", content: text("Call", 20), toolCalls: [{ id: "c1", name: "Search", arguments: "{}" }] },
+    { role: "tool", content: text("Result", 40), toolCallId: "c1" },
+    { role: "assistant", content: text("Later", 30) },
+    query,
+  ];
+  const report = await builder(60).build(messages);
+  assert.deepEqual(
+    report.messages.map((m) => m.role),
+    ["system", "assistant", "user"]
+  );
+  assert.deepEqual(
+    report.trimmed.map((t) => t.role),
+    ["assistant", "tool"]
+  );
+});
+
+test("keeps the marked query when corrective user messages follow it", async () => {
+  const corrective: ConversationMessage = { role: "user", content: text("Stop repeating yourself", 50) };
+  const messages: ConversationMessage[] = [system, query, { role: "assistant", content: text("A", 50) }, corrective];
+  const report = await builder(20).build(messages);
+  assert.deepEqual(report.messages, [system, query]);
+  assert.deepEqual(
+    report.trimmed.map((t) => t.category),
+    ["history", "history"]
+  );
+});
+
+test("treats the latest user message as the query when none is marked", async () => {
+  const messages: ConversationMessage[] = [
+    system,
+    { role: "user", content: text("Old", 50) },
+    { role: "user", content: text("New", 10) },
+  ];
+  const report = await builder(20).build(messages);
+  assert.deepEqual(
+    report.messages.map((m) => m.content.replace(/\.+$/, "")),
+    ["S", "New"]
+  );
+});
+
+test("replaces dropped history with a summary", async () => {
+  const transcripts: string[] = [];
+  const summarizer: ChatModel = {
+    async call(messages) {
+      transcripts.push(messages[1].content);
+      return "short";
+    },
+  };
+  const messages: ConversationMessage[] = [
+    system,
+    { role: "user", content: text("H1", 100) },
+    { role: "assistant", content: text("H2", 100) },
+    query,
+  ];
+  const report = await builder(200, { summarizer, maxSummaryTokens: 50 }).build(messages);
+
+  assert.equal(transcripts.length, 1);
+  assert.match(transcripts[0], /^USER: H1/);
+  assert.equal(report.messages.length, 4);
+  assert.equal(report.messages[1].metadata?.source, "summary");
+  assert.match(report.messages[1].content, /short$/);
+  assert.deepEqual(
+    report.messages.map((m) => m.content.slice(0, 2)),
+    ["S.", "Su", "H2", "Q."]
+  );
+  assert.deepEqual(
+    report.trimmed.map((t) => [t.category, t.action]),
+    [["history", "summarized"]]
+  );
+});
+
+test("truncates the largest messages in the middle, the query last", async () => {
+  const long: ConversationMessage = { role: "assistant", content: `start${"x".repeat(990)}end..` };
+  const bigQuery: ConversationMessage = { ...query, content: text("Q", 200) };
+  const report = await builder(500, { keepRecentMessages: 4 }).build([system, long, bigQuery]);
+
+  const [, truncated, keptQuery] = report.messages;
+  assert.equal(keptQuery, bigQuery);
+  assert.match(truncated.content, /^start/);
+  assert.match(truncated.content, /\[\.\.\. trimmed to fit the context window \.\.\.\]/);
+  assert.match(truncated.content, /end\.\.$/);
+  assert.ok(report.estimatedTokens <= 500, `estimated ${report.estimatedTokens}`);
+  assert.deepEqual(
+    report.trimmed.map((t) => [t.category, t.action]),
+    [["history", "truncated"]]
+  );
+  assert.equal(long.content.length, 1000, "the input message is not modified");
+});
@@ -5,3 +5,4 @@ export * from './Memory';
 export * from './VectorStore';
 export * from './CompositeMemory';
 export * from './ReflectionMemory';
+export * from './ContextBuilder';
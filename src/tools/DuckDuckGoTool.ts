@@ -1,8 +1,5 @@
-import { Tool } from "./Tools";
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+import { Tool, ToolRunOptions } from "./Tools";
+import { sleep, isCancellation } from "../utils/Cancellation";
 
 interface DuckDuckGoSearchResult {
   FirstURL?: string;
@@ -28,19 +25,19 @@ export class DuckDuckGoTool implements Tool {
   /**
    * Executes a DuckDuckGo search and returns formatted results.
    */
-  async run(input: string): Promise<string> {
+  async run(input: string, _args?: Record<string, any>, options?: ToolRunOptions): Promise<string> {
     console.log(`[DuckDuckGoTool] Received input: "${input}"`);
   
     try {
       if (this.delayMs > 0) {
         console.log(`[DuckDuckGoTool] Adding delay of ${this.delayMs}ms...`);
-        await delay(this.delayMs);
+        await sleep(this.delayMs, options?.signal);
       }
   
       const url = `https://api.duckduckgo.com/?q=${encodeURIComponent(input)}&format=json&no_redirect=1`;
       console.log(`[DuckDuckGoTool] Fetching URL: ${url}`);
   
-      const response = await fetch(url);
+      const response = await fetch(url, { signal: options?.signal });
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -64,6 +61,9 @@ export class DuckDuckGoTool implements Tool {
       console.log(`[DuckDuckGoTool] Returning results:\n${formattedResults}`);
       return formattedResults;
     } catch (err: any) {
+      if (isCancellation(err)) {
+        throw err;
+      }
       console.error(`[DuckDuckGoTool] Error occurred:`, err);
       return `Error searching DuckDuckGo: ${err.message}`;
     }
@@ -2,6 +2,7 @@
 
 import { Tool } from "./Tools";
 import { ToolError } from "./ToolError";
+import { ToolCall } from "../LLMs/ChatModel";
 
 /**
  * Represents the parsed request from an LLM's output.
@@ -54,6 +55,54 @@ export class ToolRequestParser {
     };
   }
 
+  /**
+   * Parse an output made of one or more tool requests, each starting on its own line:
+   *   TOOL REQUEST: Search "weather in Paris"
+   *   TOOL REQUEST: Calculator {"expression": "2+2"}
+   * Returns the requests in order, or an empty array if the output contains anything else
+   * (e.g. leading text or a malformed request), in which case it is treated as plain text.
+   */
+  static parseAll(input: string): ParsedToolRequest[] {
+    const segments = input.trim().split(/^(?=TOOL REQUEST:)/im);
+    const requests: ParsedToolRequest[] = [];
+    for (const segment of segments) {
+      const request = this.parse(segment.trim());
+      if (!request) return [];
+      requests.push(request);
+    }
+    return requests;
+  }
+
+  /**
+   * Convert a native function-calling ToolCall into a ParsedToolRequest.
+   * Tools without declared parameters receive the "input" argument as their query;
+   * parameterized tools receive the parsed JSON as `args`.
+   */
+  static fromToolCall(call: ToolCall, tools: Tool[]): ParsedToolRequest {
+    let parsedArgs: Record<string, any> = {};
+    try {
+      parsedArgs = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch (err) {
+      // Malformed JSON: hand the raw string over as the query
+      return { toolName: call.name, query: call.arguments };
+    }
+
+    const tool = tools.find((t) => t.name.toLowerCase() === call.name.toLowerCase());
+    if (!tool?.parameters || tool.parameters.length === 0) {
+      const input = parsedArgs.input;
+      return {
+        toolName: call.name,
+        query: typeof input === "string" ? input : JSON.stringify(parsedArgs),
+      };
+    }
+
+    return {
+      toolName: call.name,
+      query: JSON.stringify(parsedArgs),
+      args: parsedArgs
+    };
+  }
+
   /**
    * Validates that the request references an available tool and has minimal required fields.
    */
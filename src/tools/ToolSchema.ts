@@ -0,0 +1,48 @@
+// src/tools/ToolSchema.ts
+
+import { Tool } from "./Tools";
+import { ToolSchema } from "../LLMs/ChatModel";
+
+const JSON_SCHEMA_TYPES = ["string", "number", "integer", "boolean", "array", "object"];
+
+/**
+ * Converts a Tool into a JSON Schema function definition for native function calling.
+ * Tools without declared parameters get a single required "input" string,
+ * mirroring the `TOOL REQUEST: <ToolName> "<Query>"` text protocol.
+ */
+export function toolToSchema(tool: Tool): ToolSchema {
+  const params = tool.parameters ?? [];
+
+  if (params.length === 0) {
+    return {
+      name: tool.name,
+      description: tool.description ?? "",
+      parameters: {
+        type: "object",
+        properties: {
+          input: { type: "string", description: "The query or input for the tool" },
+        },
+        required: ["input"],
+      },
+    };
+  }
+
+  const properties: Record<string, any> = {};
+  for (const param of params) {
+    const type = param.type.toLowerCase();
+    properties[param.name] = {
+      type: JSON_SCHEMA_TYPES.includes(type) ? type : "string",
+      ...(param.description ? { description: param.description } : {}),
+    };
+  }
+
+  return {
+    name: tool.name,
+    description: tool.description ?? tool.docs?.description ?? "",
+    parameters: {
+      type: "object",
+      properties,
+      required: params.filter((p) => p.required).map((p) => p.name),
+    },
+  };
+}
@@ -2,6 +2,15 @@
 
 import { ToolParameter, ToolDocumentation } from "./ToolMetadata";
 
+/**
+ * Per-call options handed to Tool.run.
+ * - signal: aborted when the run that invoked the tool is cancelled; long-running
+ *   tools should pass it to their HTTP requests or check it between phases.
+ */
+export interface ToolRunOptions {
+  signal?: AbortSignal;
+}
+
 /**
  * Defines the interface for Tools that an Agent can call.
  */
@@ -30,5 +39,5 @@ export interface Tool {
    * Executes the tool with the given input string and optionally a structured args object.
    * The 'input' will usually be the extracted string from "TOOL REQUEST: <ToolName> \"<Query>\""
    */
-  run(input: string, args?: Record<string, any>): Promise<string>;
+  run(input: string, args?: Record<string, any>, options?: ToolRunOptions): Promise<string>;
 }
@@ -1,4 +1,5 @@
 export * from "./DuckDuckGoTool";
 export * from "./Tools";
 export * from "./ToolMetadata";
-export * from "./ToolRequest";
\ No newline at end of file
+export * from "./ToolRequest";
+export * from "./ToolSchema";
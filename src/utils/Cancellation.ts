@@ -0,0 +1,76 @@
+// src/utils/Cancellation.ts
+
+/**
+ * Thrown when an operation is stopped through an AbortSignal.
+ */
+export class CancelledError extends Error {
+  constructor(message: string = "Operation cancelled.") {
+    super(message);
+    this.name = "CancelledError";
+    Object.setPrototypeOf(this, CancelledError.prototype);
+  }
+}
+
+/**
+ * True for our CancelledError as well as the abort errors raised by fetch ("AbortError")
+ * and axios ("CanceledError" / ERR_CANCELED).
+ */
+export function isCancellation(error: any): boolean {
+  return (
+    error instanceof CancelledError ||
+    error?.name === "AbortError" ||
+    error?.name === "CanceledError" ||
+    error?.code === "ERR_CANCELED"
+  );
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Waits `ms` milliseconds, rejecting with CancelledError as soon as the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Settles with `promise`, or rejects with CancelledError as soon as the signal aborts,
+ * whichever comes first. Useful for work that does not accept a signal itself.
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new CancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,27 @@
+// src/utils/Concurrency.ts
+
+/**
+ * Maps `items` through an async function with at most `limit` calls in flight,
+ * preserving input order in the result. A limit of -1 (or >= items.length) runs
+ * everything at once. The first rejection rejects the whole map; calls already
+ * in flight are left to settle.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workers = limit === -1 ? items.length : Math.max(1, Math.min(limit, items.length));
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -7,6 +7,10 @@ export interface DebugStats {
     maxSteps: number;
     elapsedMs: number;
     timeToLive: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    costUsd?: number;
+    maxCostUsd?: number;
   }
   
   export class DebugLogger {
@@ -46,6 +50,17 @@ export interface DebugStats {
       console.log(`LLM Calls: ${stats.llmCallsUsed}/${stats.llmCallsLimit}`);
       console.log(`Steps: ${stats.stepsUsed}/${stats.maxSteps}`);
       console.log(`Time: ${stats.elapsedMs}ms/${stats.timeToLive}ms`);
+      if (stats.promptTokens !== undefined || stats.completionTokens !== undefined) {
+        const prompt = stats.promptTokens ?? 0;
+        const completion = stats.completionTokens ?? 0;
+        console.log(`Tokens: ${prompt + completion} (prompt ${prompt}, completion ${completion})`);
+      }
+      if (stats.costUsd !== undefined) {
+        const limit = stats.maxCostUsd === undefined || stats.maxCostUsd === -1
+          ? "unlimited"
+          : `$${stats.maxCostUsd.toFixed(4)}`;
+        console.log(`Cost: $${stats.costUsd.toFixed(4)}/${limit}`);
+      }
       console.log('=================\n');
     }
   }
\ No newline at end of file
@@ -0,0 +1,114 @@
+// src/utils/JsonSchema.ts
+
+/**
+ * A small JSON Schema validator covering the subset used for tool parameters and
+ * structured model output: type, enum, const, properties, required, additionalProperties,
+ * items, anyOf, minimum/maximum, minLength/maxLength and minItems/maxItems.
+ * Unknown keywords are ignored.
+ *
+ * Returns a list of human-readable errors (empty when the value is valid), phrased so
+ * they can be shown to a model as repair instructions.
+ */
+export function validateJsonSchema(value: any, schema: Record<string, any>, path: string = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.anyOf) {
+    const matches = (schema.anyOf as Record<string, any>[]).some(
+      (option) => validateJsonSchema(value, option, path).length === 0
+    );
+    if (!matches) {
+      errors.push(`${path} does not match any of the allowed schemas`);
+    }
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${path} must be of type ${types.join(" | ")}, got ${describeType(value)}`);
+      return errors; // further checks would only repeat the type error
+    }
+  }
+
+  if ("const" in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path} must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.some((option: any) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path} must be one of ${schema.enum.map((o: any) => JSON.stringify(o)).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters long`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters long`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path} must contain at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path} must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${i}]`)));
+    }
+  }
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const properties: Record<string, any> = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(child, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not an allowed property`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
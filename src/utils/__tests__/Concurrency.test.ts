@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mapWithConcurrency } from "../Concurrency";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function peakConcurrency(count: number, limit: number): Promise<{ results: number[]; peak: number }> {
+  let inFlight = 0;
+  let peak = 0;
+  const results = await mapWithConcurrency(
+    Array.from({ length: count }, (_, i) => i),
+    limit,
+    async (item) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      // Later items finish first, so order must come from the index, not completion
+      await delay((count - item) * 2);
+      inFlight--;
+      return item * 10;
+    }
+  );
+  return { results, peak };
+}
+
+test("keeps input order and respects the limit", async () => {
+  const { results, peak } = await peakConcurrency(6, 2);
+  assert.deepEqual(results, [0, 10, 20, 30, 40, 50]);
+  assert.equal(peak, 2);
+});
+
+test("-1 runs everything at once", async () => {
+  const { peak } = await peakConcurrency(5, -1);
+  assert.equal(peak, 5);
+});
+
+test("handles empty input", async () => {
+  assert.deepEqual(await mapWithConcurrency([], 3, async (x) => x), []);
+});
+
+test("rejects with the first error", async () => {
+  await assert.rejects(
+    mapWithConcurrency([1, 2, 3], 2, async (x) => {
+      if (x === 2) throw new Error("boom");
+      return x;
+    }),
+    /boom/
+  );
+});
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateJsonSchema } from "../JsonSchema";
+
+const SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    score: { type: "number", minimum: 0, maximum: 10 },
+    tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+    kind: { enum: ["a", "b"] },
+    note: { anyOf: [{ type: "string" }, { type: "null" }] },
+  },
+  required: ["name", "score"],
+  additionalProperties: false,
+};
+
+test("accepts a valid value", () => {
+  assert.deepEqual(validateJsonSchema({ name: "x", score: 3, tags: ["t"], kind: "a", note: null }, SCHEMA), []);
+});
+
+test("reports missing, extra and mistyped fields with their paths", () => {
+  const errors = validateJsonSchema({ score: "high", extra: 1 }, SCHEMA);
+  assert.ok(errors.some((e) => e.includes("name")), errors.join("; "));
+  assert.ok(errors.some((e) => e.includes("$.score") && e.includes("number")), errors.join("; "));
+  assert.ok(errors.some((e) => e.includes("extra")), errors.join("; "));
+});
+
+test("checks bounds, enums, array items and anyOf", () => {
+  const errors = validateJsonSchema({ name: "", score: 11, tags: ["a", 2, "c"], kind: "z", note: 5 }, SCHEMA);
+  for (const path of ["$.name", "$.score", "$.tags", "$.tags[1]", "$.kind", "$.note"]) {
+    assert.ok(errors.some((e) => e.startsWith(path)), `no error for ${path}: ${errors.join("; ")}`);
+  }
+});
+
+test("integer is stricter than number", () => {
+  assert.deepEqual(validateJsonSchema(2, { type: "integer" }), []);
+  assert.equal(validateJsonSchema(2.5, { type: "integer" }).length, 1);
+});